@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import config from '../config'
+import { cacheKey, cached } from './cache'
+
+const { size, ttl } = config.responses
+
+afterEach(() => {
+  Object.assign(config.responses, { size, ttl })
+})
+
+/** Request a key through the cache, counting how many times it's rendered */
+function counter(body: string) {
+  let renders = 0
+
+  const get = async (key: string, headers: HeadersInit = {}) => {
+    const response = await cached(new Request('http://localhost/', { headers }), key, async () => {
+      renders++
+      return new Response(body, { headers: { 'Content-Type': 'application/json' } })
+    })
+
+    // Responses are only cached once their body has been read
+    return { status: response.status, headers: response.headers, body: await response.text() }
+  }
+
+  return { get, renders: () => renders }
+}
+
+describe('cached', () => {
+  test('renders a response once, then serves it from cache with an ETag', async () => {
+    const { get, renders } = counter('{"a":1}')
+
+    const miss = await get('miss-then-hit')
+    expect(miss.body).toBe('{"a":1}')
+    expect(miss.headers.get('ETag')).toBeNull()
+
+    const hit = await get('miss-then-hit')
+    expect(hit.body).toBe('{"a":1}')
+    expect(hit.headers.get('ETag')).toMatch(/^W\/".+"$/)
+    expect(renders()).toBe(1)
+  })
+
+  test('is not modified when the ETag matches', async () => {
+    const { get } = counter('{"a":1}')
+
+    await get('etag')
+    const { headers } = await get('etag')
+    const etag = headers.get('ETag')!
+
+    expect((await get('etag', { 'If-None-Match': etag })).status).toBe(304)
+    expect((await get('etag', { 'If-None-Match': `"other", ${etag.replace('W/', '')}` })).status).toBe(304)
+    expect((await get('etag', { 'If-None-Match': '*' })).status).toBe(304)
+
+    const changed = await get('etag', { 'If-None-Match': '"other"' })
+    expect(changed.status).toBe(200)
+    expect(changed.body).toBe('{"a":1}')
+  })
+
+  test('renders again once the TTL has passed', async () => {
+    config.responses.ttl = 0.01
+    const { get, renders } = counter('{"a":1}')
+
+    await get('ttl')
+    await get('ttl')
+    expect(renders()).toBe(1)
+
+    await Bun.sleep(20)
+    await get('ttl')
+    expect(renders()).toBe(2)
+  })
+
+  test('evicts the least recently used once over the size limit in bytes', async () => {
+    // Enough for 12 bytes, "éééé" is 6 characters but 10 bytes
+    config.responses.size = 12 / 1024 / 1024
+    const accents = counter('"éééé"')
+    const plain = counter('"a"')
+
+    await accents.get('lru-accents')
+    await plain.get('lru-plain')
+
+    await plain.get('lru-plain')
+    expect(plain.renders()).toBe(1)
+
+    // Counting characters there'd have been room for both
+    await accents.get('lru-accents')
+    expect(accents.renders()).toBe(2)
+  })
+})
+
+describe('cacheKey', () => {
+  test('is the route without any parameters', () => {
+    expect(cacheKey('work/1')).toBe('work/1')
+    expect(cacheKey('work/1', { editions: undefined, lang: '' })).toBe('work/1')
+  })
+
+  test('changes with the edition options', () => {
+    const keys = [
+      cacheKey('work/1'),
+      cacheKey('work/1', { limit: 10 }),
+      cacheKey('work/1', { languages: ['eng'] }),
+      cacheKey('work/1', { languages: ['fre'] }),
+      cacheKey('work/1', { languages: ['fre'], strictLanguage: true }),
+    ]
+
+    expect(new Set(keys).size).toBe(keys.length)
+  })
+
+  test("doesn't depend on the order or case of the parameters", () => {
+    expect(cacheKey('search', { q: 'Mort', limit: 10 })).toBe(cacheKey('search', { limit: 10, q: 'mort' }))
+  })
+})
@@ -0,0 +1,188 @@
+import config from '../config'
+import { setCacheStatus } from '../context'
+import * as log from '../log'
+import * as model from '../model'
+import { normaliseText } from './normalise'
+
+interface Entry {
+  body: string
+  // Size of the body in UTF-8, as that's what it takes up in memory
+  bytes: number
+  headers: { [name: string]: string }
+  etag: string
+  expires: number
+}
+
+// Maps iterate in insertion order, so re-inserting on each hit keeps the least recently used first
+const entries = new Map<string, Entry>()
+let size = 0
+
+/**
+ * Serve a response from cache if possible, otherwise render and cache it
+ * Responses are cached in memory in each worker, and optionally shared through Postgres
+ * Rendered responses are streamed straight to the client before the whole body is known, so the ETag is only sent
+ * once it's served from cache i.e. from the next request for it onwards
+ */
+export async function cached(req: Request, key: string, render: () => Promise<Response>): Promise<Response> {
+  const entry = getEntry(key) ?? (config.responses.shared ? await getSharedEntry(key) : null)
+
+  setCacheStatus(entry ? 'hit' : 'miss')
+
+  if (!entry) {
+    const response = await render()
+
+    // Errors and not found shouldn't be cached, as they're often temporary
+    if (response.status !== 200 || !response.body) {
+      return response
+    }
+
+    const headers = new Headers(response.headers)
+    headers.set('Cache-Control', `public, max-age=${config.responses.maxAge}`)
+    headers.set('Vary', 'Accept-Language')
+
+    // Headers other than the content type which need to be sent with cached responses too e.g. X-Total-Count
+    const extraHeaders: { [name: string]: string } = {}
+    response.headers.forEach((value, name) => {
+      if (name !== 'content-type') extraHeaders[name] = value
+    })
+
+    // Only the body is shared, so responses with extra headers are only cached in memory
+    const shareable = config.responses.shared && Object.keys(extraHeaders).length === 0
+
+    const body = response.body.pipeThrough(
+      copyBody(config.responses.maxEntrySize * 1024 * 1024, (text) => {
+        setEntry(key, text, extraHeaders)
+
+        if (shareable) {
+          model.saveCache('response', key, text).catch((error) => log.error('Error caching response', error, { key }))
+        }
+      }),
+    )
+
+    return new Response(body, { headers })
+  }
+
+  const headers = {
+    'Content-Type': 'application/json',
+    ...entry.headers,
+    'Cache-Control': `public, max-age=${config.responses.maxAge}`,
+    // Edition languages can depend on the Accept-Language header
+    Vary: 'Accept-Language',
+    ETag: entry.etag,
+  }
+
+  if (matchesEtag(req.headers.get('if-none-match'), entry.etag)) {
+    return new Response(null, { status: 304, headers })
+  }
+
+  return new Response(entry.body, { headers })
+}
+
+/**
+ * Pass a body through at the pace the client reads it, while keeping a copy to cache once it's complete
+ * Bodies larger than the limit aren't cached, so large streamed responses aren't held in memory
+ */
+function copyBody(maxBytes: number, onComplete: (text: string) => void): TransformStream<Uint8Array, Uint8Array> {
+  const decoder = new TextDecoder()
+  let parts: string[] | null = []
+  let bytes = 0
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      controller.enqueue(chunk)
+      if (!parts) return
+
+      bytes += chunk.byteLength
+
+      if (bytes > maxBytes) {
+        parts = null
+      } else {
+        parts.push(decoder.decode(chunk, { stream: true }))
+      }
+    },
+    flush() {
+      if (parts) onComplete(parts.join('') + decoder.decode())
+    },
+  })
+}
+
+/** Normalise a request into a cache key, so equivalent requests share a cached response */
+export function cacheKey(route: string, params: { [key: string]: unknown } = {}): string {
+  const normalised = Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    // Cursors are base64, so their case matters
+    .map(([key, value]) => [key, typeof value === 'string' && key !== 'cursor' ? normaliseText(value) : value])
+    .sort(([a], [b]) => String(a).localeCompare(String(b)))
+
+  return normalised.length ? `${route}?${JSON.stringify(normalised)}` : route
+}
+
+/** Responses cached by other workers, which are then also cached in memory */
+async function getSharedEntry(key: string): Promise<Entry | null> {
+  const body = await model.getCache('response', key, config.responses.ttl)
+  return body !== null ? setEntry(key, body) : null
+}
+
+function getEntry(key: string): Entry | null {
+  const entry = entries.get(key)
+  if (!entry) return null
+
+  if (entry.expires < Date.now()) {
+    deleteEntry(key)
+    return null
+  }
+
+  // Move to the end as the most recently used
+  entries.delete(key)
+  entries.set(key, entry)
+
+  return entry
+}
+
+function setEntry(key: string, body: string, headers: { [name: string]: string } = {}): Entry {
+  const entry: Entry = {
+    body,
+    bytes: Buffer.byteLength(body),
+    headers,
+    etag: `W/"${Bun.hash(body).toString(36)}"`,
+    expires: Date.now() + config.responses.ttl * 1000,
+  }
+
+  const maxSize = config.responses.size * 1024 * 1024
+
+  // Too large to cache in memory, but it can still be served
+  if (entry.bytes > maxSize) {
+    return entry
+  }
+
+  deleteEntry(key)
+  entries.set(key, entry)
+  size += entry.bytes
+
+  // Evict the least recently used until there's space
+  for (const oldest of entries.keys()) {
+    if (size <= maxSize) break
+    deleteEntry(oldest)
+  }
+
+  return entry
+}
+
+function deleteEntry(key: string): void {
+  const entry = entries.get(key)
+
+  if (entry) {
+    size -= entry.bytes
+    entries.delete(key)
+  }
+}
+
+/** If-None-Match can be a list of ETags, or * to match any */
+function matchesEtag(header: string | null, etag: string): boolean {
+  if (!header) return false
+  if (header.trim() === '*') return true
+
+  // Weak comparison ignores the W/ prefix
+  const strip = (tag: string) => tag.trim().replace(/^W\//, '')
+  return header.split(',').some((tag) => strip(tag) === strip(etag))
+}
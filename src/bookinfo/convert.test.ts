@@ -0,0 +1,131 @@
+import { describe, expect, test } from 'bun:test'
+import type { Edition, Series, Work } from '../types'
+import { convertContributors, convertSeries, parseSeriesPosition } from './convert'
+import * as ids from '../ids'
+
+/** Readarr ID of the work e.g. 11 is OL11W */
+function workId(n: number): number {
+  return ids.encodeReadarrId(`/works/OL${n}W`)
+}
+
+function item(seriesId: number, work: number, position: Series['position']): Series {
+  return { seriesId, workId: workId(work), position, title: `Series ${seriesId}` }
+}
+
+describe('convertContributors', () => {
+  const work = {
+    key: '/works/OL1W',
+    authors: ['/authors/OL1A'],
+    contributors: [
+      { type: '/type/author_role', key: '/authors/OL1A', role: 'Author' },
+      { type: '/type/author_role', key: '/authors/OL2A', role: 'Translated by' },
+    ],
+  } as Work
+
+  const credits = (...contributors: NonNullable<Edition['contributors']>) =>
+    ({ key: '/books/OL1M', contributors }) as Edition
+
+  test('lists the authors followed by the work and edition credits', () => {
+    const contributors = convertContributors(
+      credits({ role: 'Illustrator', name: 'Jane Doe' }),
+      work,
+      new Map([['jane doe', '/authors/OL3A']]),
+    )
+
+    expect(contributors).toEqual([
+      { ForeignId: ids.encodeReadarrId('/authors/OL1A'), Role: 'author' },
+      { ForeignId: ids.encodeReadarrId('/authors/OL2A'), Role: 'translator' },
+      { ForeignId: ids.encodeReadarrId('/authors/OL3A'), Role: 'illustrator' },
+    ])
+  })
+
+  test('lists each author once per role', () => {
+    const contributors = convertContributors(
+      // The translator is credited on the edition too, as well as illustrating it
+      credits({ role: 'Translator', name: 'John Smith' }, { role: 'Illustrations', name: 'john smith' }),
+      work,
+      new Map([['john smith', '/authors/OL2A']]),
+    )
+
+    expect(contributors.map((contributor) => contributor.Role)).toEqual(['author', 'translator', 'illustrator'])
+  })
+
+  test("leaves out names which aren't an author", () => {
+    const contributors = convertContributors(credits({ role: 'Editor', name: 'Nobody' }), work, new Map())
+
+    expect(contributors.map((contributor) => contributor.Role)).toEqual(['author', 'translator'])
+  })
+})
+
+describe('parseSeriesPosition', () => {
+  test('parses whole and fractional positions', () => {
+    expect(parseSeriesPosition('1')).toEqual({ start: 1, end: 1 })
+    expect(parseSeriesPosition('1.5')).toEqual({ start: 1.5, end: 1.5 })
+    expect(parseSeriesPosition(2)).toEqual({ start: 2, end: 2 })
+    expect(parseSeriesPosition('Book 4')).toEqual({ start: 4, end: 4 })
+  })
+
+  test('parses ranges', () => {
+    expect(parseSeriesPosition('1-3')).toEqual({ start: 1, end: 3 })
+    expect(parseSeriesPosition('1 – 3')).toEqual({ start: 1, end: 3 })
+    expect(parseSeriesPosition('1 to 3')).toEqual({ start: 1, end: 3 })
+  })
+
+  test('is null without a number', () => {
+    expect(parseSeriesPosition('prequel')).toBeNull()
+    expect(parseSeriesPosition('')).toBeNull()
+    expect(parseSeriesPosition(null)).toBeNull()
+    expect(parseSeriesPosition(NaN)).toBeNull()
+  })
+})
+
+describe('convertSeries', () => {
+  test('groups works by series, ordered by position', () => {
+    const [series] = convertSeries([item(1, 12, '2'), item(1, 11, '1'), item(1, 13, 'prequel')])
+
+    expect(series.ForeignId).toBe(1)
+    expect(series.Title).toBe('Series 1')
+    // Unnumbered entries go after the numbered ones
+    expect(series.LinkItems.map((link) => link.ForeignWorkId)).toEqual([11, 12, 13].map(workId))
+    expect(series.LinkItems.map((link) => link.PositionInSeries)).toEqual(['1', '2', 'prequel'])
+  })
+
+  test('only whole single positions are primary', () => {
+    const [series] = convertSeries([item(1, 11, '1'), item(1, 12, '1.5'), item(1, 13, '1-3'), item(1, 14, 'prequel')])
+
+    expect(Object.fromEntries(series.LinkItems.map((link) => [link.PositionInSeries, link.Primary]))).toEqual({
+      '1': true,
+      '1.5': false,
+      '1-3': false,
+      prequel: false,
+    })
+  })
+
+  test("nothing is primary in a series which isn't numbered", () => {
+    const [series] = convertSeries([item(1, 11, null), item(1, 12, '')])
+
+    expect(series.LinkItems.every((link) => !link.Primary)).toBe(true)
+  })
+
+  test('orders series by when they were first published', () => {
+    const series = convertSeries(
+      [item(1, 11, '1'), item(2, 21, '1'), item(2, 22, '2'), item(3, 31, '1')],
+      [
+        { ForeignId: workId(11), ReleaseDate: '2005-01-01T00:00:00' },
+        { ForeignId: workId(21), ReleaseDate: '2010-01-01T00:00:00' },
+        { ForeignId: workId(22), ReleaseDate: '1999-01-01T00:00:00' },
+        // Unknown dates are ignored, so series 3 goes last
+        { ForeignId: workId(31), ReleaseDate: '1970-01-01 00:00:00' },
+      ],
+    )
+
+    expect(series.map((s) => s.ForeignId)).toEqual([2, 1, 3])
+    expect(series.map((s) => s.LinkItems[0].SeriesPosition)).toEqual([1, 2, 3])
+  })
+
+  test('puts numbered series ahead of loose collections started at the same time', () => {
+    const series = convertSeries([item(1, 11, null), item(2, 21, '1')])
+
+    expect(series.map((s) => s.ForeignId)).toEqual([2, 1])
+  })
+})
@@ -1,5 +1,8 @@
-import type { Author, Edition, Rating, Series, Work } from '../types'
+import type { Author, Edition, Id, Rating, Series, Work } from '../types'
 import type { BookInfoAuthor, BookInfoBook, BookInfoSeries, BookInfoWork } from './types'
+import { isPreferredLanguage, selectEditions } from './editions'
+import { rankRelatedWorks } from './related'
+import config from '../config'
 import * as formatters from './formatters'
 import * as ids from '../ids'
 import * as model from '../model'
@@ -20,11 +23,15 @@ export async function convertAuthor(author: Author): Promise<BookInfoAuthor> {
   }
 }
 
-/** Map between OL JSON and Readarr format */
+/**
+ * Map between OL JSON and Readarr format
+ * Author keys for the names credited on the edition are looked up if not passed in
+ */
 export async function convertEdition(
   edition: Edition,
   work: Work,
   rating?: Rating | null,
+  authorKeys?: Map<string, Id> | null,
 ): Promise<BookInfoBook | null> {
   // We require at least one author
   if (!work.authors || !work.authors.length) {
@@ -67,16 +74,55 @@ export async function convertEdition(
     ReleaseDate: formatters.formatDate(
       edition.publishDate ?? edition.created ?? work.created ?? edition.lastModified ?? work.lastModified,
     ),
-    Contributors: (work.authors ?? []).map((authorId) => ({
-      ForeignId: ids.encodeReadarrId(authorId),
-      // TODO: find other valid types and map from OL
-      Role: 'author',
-    })),
+    Contributors: convertContributors(
+      edition,
+      work,
+      authorKeys ?? (await model.getAuthorKeysByName(getCreditNames([edition]))),
+    ),
   }
 }
 
-/** Map between OL JSON and Readarr format */
-export function convertSeries(series: Series[]): BookInfoSeries[] {
+/**
+ * Authors followed by anyone else credited on the work or edition e.g. translators
+ * Edition credits are just names, so they're matched to authors using the keys looked up for them by name
+ */
+export function convertContributors(
+  edition: Edition,
+  work: Work,
+  authorKeys: Map<string, Id>,
+): BookInfoBook['Contributors'] {
+  const contributors: { key: string; role: string }[] = [
+    ...(work.authors ?? []).map((key) => ({ key, role: 'author' })),
+    // Work credits are already OL authors
+    ...(work.contributors ?? [])
+      .filter((contributor) => contributor.role && !work.authors?.includes(contributor.key))
+      .map((contributor) => ({ key: contributor.key, role: formatters.formatRole(contributor.role) })),
+  ]
+
+  for (const credit of edition.contributors ?? []) {
+    const key = authorKeys.get(credit.name.toLowerCase())
+    if (key) contributors.push({ key, role: formatters.formatRole(credit.role) })
+  }
+
+  return contributors
+    .filter(
+      (contributor, i) =>
+        contributors.findIndex((other) => other.key === contributor.key && other.role === contributor.role) === i,
+    )
+    .map((contributor) => ({
+      ForeignId: ids.encodeReadarrId(contributor.key),
+      Role: contributor.role,
+    }))
+}
+
+/**
+ * Map between OL JSON and Readarr format
+ * Works are optional and used to order the series by when they were first published
+ */
+export function convertSeries(
+  series: Series[],
+  works: Pick<BookInfoWork, 'ForeignId' | 'ReleaseDate'>[] = [],
+): BookInfoSeries[] {
   const seriesMap: Record<number, Series[]> = {}
 
   // Group series by seriesId
@@ -87,25 +133,62 @@ export function convertSeries(series: Series[]): BookInfoSeries[] {
     seriesMap[item.seriesId].push(item)
   })
 
+  const releaseDates = new Map(works.map((work) => [work.ForeignId, work.ReleaseDate]))
+
+  const groups = Object.values(seriesMap).map((group) => {
+    const positions = new Map(group.map((item) => [item, parseSeriesPosition(item.position)]))
+
+    // Shared universe series e.g. Discworld sub-series often have no numbering at all
+    const numbered = group.some((item) => positions.get(item) !== null)
+
+    // Earliest known release date of any work in the series
+    const firstPublished = group
+      .map((item) => releaseDates.get(item.workId))
+      .filter((date): date is string => !!date && !date.startsWith('1970-01-01'))
+      .sort()[0]
+
+    return { group, positions, numbered, firstPublished }
+  })
+
+  // Order series by when they started, with numbered series ahead of loose collections
+  groups.sort(
+    (a, b) =>
+      // Series without any known release date go last
+      (a.firstPublished ?? '9999').localeCompare(b.firstPublished ?? '9999') ||
+      Number(b.numbered) - Number(a.numbered) ||
+      a.group[0].seriesId - b.group[0].seriesId,
+  )
+
   // Convert grouped series into BookInfoSeries
-  return Object.values(seriesMap).map((group, i) => {
+  return groups.map(({ group, positions, numbered }, i) => {
     const firstItem = group[0]
+
+    const items = [...group].sort(
+      (a, b) =>
+        (positions.get(a)?.start ?? Infinity) - (positions.get(b)?.start ?? Infinity) ||
+        (positions.get(a)?.end ?? Infinity) - (positions.get(b)?.end ?? Infinity),
+    )
+
     return {
       // This is in OL ID Readerr format
       ForeignId: firstItem.seriesId,
       Title: firstItem.title,
       Description: '',
-      LinkItems: group.map((item) => ({
-        // TODO: work out how to get OL equivalent of secondary series
-        Primary: true,
-        // Which book of the series
-        PositionInSeries: item.position ? item.position.toString() : '',
-        // Order of the series relative to other series by the same author
-        SeriesPosition: i + 1,
-        ForeignSeriesId: item.seriesId,
-        ForeignWorkId: item.workId,
-        OlId: ids.decodeReadarrId(item.workId, 'work'),
-      })),
+      LinkItems: items.map((item) => {
+        const position = positions.get(item)
+
+        return {
+          // Novellas (e.g. 2.5) and omnibuses (e.g. 1-3) are secondary entries
+          Primary: numbered && !!position && position.start === position.end && Number.isInteger(position.start),
+          // Which book of the series
+          PositionInSeries: item.position != null ? String(item.position).trim() : '',
+          // Order of the series relative to other series by the same author
+          SeriesPosition: i + 1,
+          ForeignSeriesId: item.seriesId,
+          ForeignWorkId: item.workId,
+          OlId: ids.decodeReadarrId(item.workId, 'work'),
+        }
+      }),
     } as BookInfoSeries
   })
 }
@@ -113,23 +196,36 @@ export function convertSeries(series: Series[]): BookInfoSeries[] {
 /**
  * Map between OL JSON and Readarr format
  * This leaves setting Authors and Series key up to the caller
+ * Related works are looked up if not passed in
+ * Editions are filtered down to the ones worth showing, unless they were asked for explicitly e.g. by ID
  */
 export async function convertWork(
   work: Work,
   editions?: Edition[] | null,
   ratings?: Rating[] | null,
+  relatedWorks?: number[] | null,
+  filterEditions: boolean = true,
 ): Promise<BookInfoWork | null> {
   editions = editions ?? (await model.getWorkEditions([work.key]))
   ratings = ratings ?? (editions.length > 0 ? await model.getWorkRatings([work.key], true) : [])
 
-  const books: BookInfoBook[] = (
-    await Promise.all(
-      editions.map(async (edition) => {
-        const editionRating = ratings.find((rating) => rating.editionKey === edition.key) || null
-        return await convertEdition(edition, work, editionRating)
-      }),
-    )
-  ).filter((book): book is BookInfoBook => book !== null)
+  const selected = filterEditions ? selectEditions(editions, ratings) : editions
+
+  // Credited authors are looked up for all the editions at once, and related works alongside them so they're batched
+  // with the other works being converted
+  const [authorKeys, related] = await Promise.all([
+    model.getAuthorKeysByName(getCreditNames(selected)),
+    relatedWorks ?? getRelatedWorks(work, editions),
+  ])
+
+  const converted = await Promise.all(
+    selected.map(async (edition) => {
+      const editionRating = ratings.find((rating) => rating.editionKey === edition.key) || null
+      return await convertEdition(edition, work, editionRating, authorKeys)
+    }),
+  )
+
+  const books = converted.filter((book): book is BookInfoBook => book !== null)
 
   if (!books.length) {
     return null
@@ -162,7 +258,8 @@ export async function convertWork(
 
   return {
     ForeignId: ids.encodeReadarrId(work.key),
-    Title: work.title,
+    // Prefer the title the work was published under in the reader's language
+    Title: selected.find(isPreferredLanguage)?.title ?? work.title,
     ReleaseDate: formatters.formatDate(
       earliestPublishDate ?? editions[0].created ?? editions[0].lastModified ?? work.lastModified,
     ),
@@ -170,8 +267,37 @@ export async function convertWork(
     Genres: (work.subjects ?? []).filter((genre, i, genres) => genres.indexOf(genre) === i),
     RatingCount: workRating?.count ?? 0,
     AverageRating: workRating?.average ?? 0,
-    // TODO: related works
-    RelatedWorks: [],
+    RelatedWorks: related,
     Books: books,
   }
 }
+
+/** Finds related works amongst the author's works and the series the work is in */
+async function getRelatedWorks(work: Work, editions: Edition[]): Promise<number[]> {
+  const [candidates, series] = await Promise.all([
+    work.authors?.[0] ? model.getPrimaryAuthorWorks(work.authors[0], config.related.candidates) : [],
+    model.getWorkSeries([work.key]),
+  ])
+
+  return rankRelatedWorks(work, candidates, editions, series)
+}
+
+/** Names credited on any of the editions, to look up the authors they refer to all at once */
+function getCreditNames(editions: Edition[]): string[] {
+  return editions.flatMap((edition) => (edition.contributors ?? []).map((credit) => credit.name))
+}
+
+/** Parses a series position such as "2", "2.5", "1-3" or "Book 4" into a range */
+export function parseSeriesPosition(position: string | number | null): { start: number; end: number } | null {
+  if (typeof position === 'number') {
+    return isNaN(position) ? null : { start: position, end: position }
+  }
+
+  const numbers = (position ?? '').match(/\d+(?:\.\d+)?/g)?.map(Number)
+  if (!numbers || !numbers.length) return null
+
+  // Ranges can be written as 1-3, 1–3, or 1 to 3
+  const isRange = numbers.length > 1 && /\d\s*(?:-|–|to)\s*\d/i.test(position ?? '')
+
+  return { start: numbers[0], end: isRange ? numbers[numbers.length - 1] : numbers[0] }
+}
@@ -0,0 +1,205 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import type { Edition, Rating } from '../types'
+import config from '../config'
+import { getContext, runWithContext } from '../context'
+import { type EditionOptions, parseEditionOptions, selectEditions } from './editions'
+import { BadRequest } from 'fejl'
+
+const defaults = structuredClone(config.editions)
+
+afterEach(() => {
+  Object.assign(config.editions, structuredClone(defaults))
+})
+
+let editionCount = 0
+
+function edition(data: Partial<Edition> = {}): Edition {
+  const n = ++editionCount
+  return {
+    key: `/books/OL${n}M`,
+    title: 'Mort',
+    isbn_10: [],
+    isbn_13: [],
+    publishers: ['Corgi'],
+    languages: ['eng'],
+    ...data,
+  } as Edition
+}
+
+/** Select editions with the given overrides, as a request would */
+function select(editions: Edition[], options: Partial<EditionOptions> = {}, ratings: Rating[] = []): Edition[] {
+  return runWithContext(() => {
+    getContext()!.editionOptions = options
+    return selectEditions(editions, ratings)
+  })
+}
+
+describe('selectEditions', () => {
+  test('ranks editions with a cover, ISBN, page count, and publisher first', () => {
+    const bare = edition({ publishers: [] })
+    const publisher = edition()
+    const pages = edition({ numberOfPages: 288 })
+    const isbn = edition({ isbn_13: ['9780552131063'] })
+    const cover = edition({ covers: ['1234'], isbn_13: ['9780552131064'] })
+
+    expect(select([bare, publisher, pages, isbn, cover], { dedupe: false })).toEqual([
+      cover,
+      isbn,
+      pages,
+      publisher,
+      bare,
+    ])
+  })
+
+  test('ranks editions with more ratings higher', () => {
+    const few = edition()
+    const many = edition()
+    const ratings = [
+      { workKey: '/works/OL1W', editionKey: few.key, average: 4, count: 9 },
+      { workKey: '/works/OL1W', editionKey: many.key, average: 4, count: 999 },
+    ]
+
+    expect(select([few, many], { dedupe: false }, ratings)).toEqual([many, few])
+  })
+
+  test('weights quality by the config', () => {
+    const cover = edition({ covers: ['1234'], publishers: [] })
+    const publisher = edition()
+
+    expect(select([publisher, cover], { dedupe: false })).toEqual([cover, publisher])
+
+    config.editions.weights.publisher = 10
+    expect(select([publisher, cover], { dedupe: false })).toEqual([publisher, cover])
+  })
+
+  test('keeps the best of editions sharing an ISBN', () => {
+    const worse = edition({ title: 'Mort', isbn_10: ['0552131067'] })
+    const better = edition({ title: 'Mort: A Discworld Novel', isbn_10: ['0552131067'], covers: ['1234'] })
+
+    expect(select([worse, better])).toEqual([better])
+  })
+
+  test('keeps the best of editions with the same title, publisher, format, and language', () => {
+    const worse = edition({ title: 'Mort!', physicalFormat: 'Paperback' })
+    const better = edition({ title: 'mort', physicalFormat: 'paperback', numberOfPages: 288 })
+
+    expect(select([worse, better])).toEqual([better])
+  })
+
+  test('keeps editions in a different format, or from a different publisher', () => {
+    const paperback = edition({ physicalFormat: 'Paperback' })
+    const hardcover = edition({ physicalFormat: 'Hardcover' })
+    const other = edition({ physicalFormat: 'Paperback', publishers: ['Gollancz'] })
+
+    expect(select([paperback, hardcover, other])).toHaveLength(3)
+  })
+
+  test('drops editions without a title, or without a language when others have one', () => {
+    const english = edition()
+    const untitled = edition({ title: ' ' })
+    const unknown = edition({ languages: [], physicalFormat: 'Hardcover' })
+
+    expect(select([english, untitled, unknown])).toEqual([english])
+    expect(select([untitled, unknown])).toEqual([unknown])
+    expect(select([english, unknown], { requireLanguage: false })).toEqual([english, unknown])
+  })
+
+  test('limits editions per language and per work', () => {
+    const english = [1, 2, 3].map((n) => edition({ title: `Mort ${n}` }))
+    const french = [1, 2, 3].map((n) => edition({ title: `Mortimer ${n}`, languages: ['fre'] }))
+
+    expect(select([...english, ...french], { perLanguage: 2 })).toEqual([...english.slice(0, 2), ...french.slice(0, 2)])
+    expect(select([...english, ...french], { limit: 4 })).toEqual([...english, french[0]])
+  })
+
+  test('returns every edition with editions=all', () => {
+    const editions = [edition(), edition(), edition({ languages: [] })]
+
+    expect(select(editions, parseEditionOptions({ editions: 'all' }))).toEqual(editions)
+  })
+
+  test('returns the ranked editions rather than none at all', () => {
+    const untitled = edition({ title: '' })
+
+    expect(select([untitled])).toEqual([untitled])
+  })
+})
+
+describe('parseEditionOptions', () => {
+  test('is empty without any parameters', () => {
+    expect(parseEditionOptions({})).toEqual({})
+  })
+
+  test('turns off the filters with editions=all', () => {
+    expect(parseEditionOptions({ editions: 'all', dedupe: 'true' })).toEqual({
+      dedupe: false,
+      requireLanguage: false,
+      perLanguage: 0,
+      limit: 0,
+    })
+  })
+
+  test('overrides each option', () => {
+    expect(
+      parseEditionOptions({ dedupe: 'false', requireLanguage: 'true', perLanguage: '5', editionLimit: '10' }),
+    ).toEqual({ dedupe: false, requireLanguage: true, perLanguage: 5, limit: 10 })
+
+    expect(parseEditionOptions({ editionLimit: '0' })).toEqual({ limit: 0 })
+  })
+
+  test('rejects invalid values', () => {
+    expect(() => parseEditionOptions({ dedupe: 'yes' })).toThrow(BadRequest)
+    expect(() => parseEditionOptions({ perLanguage: '-1' })).toThrow(BadRequest)
+    expect(() => parseEditionOptions({ editionLimit: '2.5' })).toThrow(BadRequest)
+    expect(() => parseEditionOptions({ editionLimit: 'all' })).toThrow(BadRequest)
+  })
+})
+
+describe('languages', () => {
+  const languages = (acceptLanguage: string | null, query: { [key: string]: string } = {}) =>
+    parseEditionOptions(query, acceptLanguage).languages
+
+  test('orders Accept-Language by q-value', () => {
+    expect(languages('en;q=0.5, fr, de;q=0.8')).toEqual(['fre', 'ger', 'eng'])
+  })
+
+  test('maps regional languages to OL codes', () => {
+    expect(languages('en-US,en;q=0.9,fr-CA;q=0.8')).toEqual(['eng', 'fre'])
+  })
+
+  test('ignores the wildcard and languages which are refused', () => {
+    expect(languages('fr, *;q=0.5, de;q=0')).toEqual(['fre'])
+    expect(languages('*')).toBeUndefined()
+  })
+
+  test('ignores an invalid header', () => {
+    expect(languages('not a language, ;;')).toBeUndefined()
+    expect(languages('')).toBeUndefined()
+  })
+
+  test('prefers lang over the header', () => {
+    expect(languages('de', { lang: 'fr,en' })).toEqual(['fre', 'eng'])
+    expect(() => languages('de', { lang: 'klingon' })).toThrow(BadRequest)
+  })
+
+  test('lists editions in the preferred languages first', () => {
+    const english = edition({ covers: ['1234'] })
+    const french = edition({ title: 'Mortimer', languages: ['fre'] })
+
+    expect(select([english, french], parseEditionOptions({}, 'fr'))).toEqual([french, english])
+  })
+
+  test('leaves out other languages in strict mode, even if that leaves none', () => {
+    const english = edition()
+    const french = edition({ title: 'Mortimer', languages: ['fre'] })
+
+    expect(select([english, french], parseEditionOptions({ lang: 'fr', strictLanguage: 'true' }))).toEqual([french])
+    expect(select([english], parseEditionOptions({ lang: 'fr', strictLanguage: 'true' }))).toEqual([])
+  })
+
+  test('falls back to other languages when not strict', () => {
+    const english = edition()
+
+    expect(select([english], parseEditionOptions({ lang: 'fr' }))).toEqual([english])
+  })
+})
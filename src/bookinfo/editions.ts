@@ -0,0 +1,204 @@
+import type { Edition, Rating } from '../types'
+import config from '../config'
+import { getContext } from '../context'
+import * as formatters from './formatters'
+import { BadRequest } from 'fejl'
+
+/** How editions of a work are filtered, see config.editions for what each does */
+export interface EditionOptions {
+  dedupe: boolean
+  requireLanguage: boolean
+  perLanguage: number
+  limit: number
+  // Preferred languages as OL codes, most preferred first
+  languages: string[]
+  strictLanguage: boolean
+}
+
+/**
+ * Pick the editions of a work worth showing, best first
+ * OL has many near-duplicate editions e.g. scans or imports of the same book, which make Readarr's edition picker unusable
+ */
+export function selectEditions(editions: Edition[], ratings: Rating[] = []): Edition[] {
+  const options = getEditionOptions()
+  const counts = new Map(ratings.map((rating) => [rating.editionKey, rating.count]))
+
+  // Editions in the preferred languages come first, whatever their score
+  const ranked = editions
+    .filter((edition) => !options.strictLanguage || !options.languages.length || languageRank(edition, options) >= 0)
+    .map((edition) => ({
+      edition,
+      language: languageRank(edition, options),
+      score: scoreEdition(edition, counts.get(edition.key) ?? 0),
+    }))
+    .sort(
+      (a, b) =>
+        (a.language < 0 ? Infinity : a.language) - (b.language < 0 ? Infinity : b.language) || b.score - a.score,
+    )
+    .map(({ edition }) => edition)
+
+  let selected = ranked.filter((edition) => edition.title?.trim())
+
+  // Editions without a language are usually bad imports, but some works don't have any with one
+  if (options.requireLanguage && selected.some((edition) => edition.languages?.length)) {
+    selected = selected.filter((edition) => edition.languages?.length)
+  }
+
+  if (options.dedupe) {
+    // As they're ranked, the first of each duplicate is the best one
+    const seen = new Set<string>()
+
+    selected = selected.filter((edition) => {
+      const keys = duplicateKeys(edition)
+      const duplicate = keys.some((key) => seen.has(key))
+      keys.forEach((key) => seen.add(key))
+      return !duplicate
+    })
+  }
+
+  if (options.perLanguage > 0) {
+    const languageCounts = new Map<string, number>()
+
+    selected = selected.filter((edition) => {
+      const language = edition.languages?.[0] ?? ''
+      const count = (languageCounts.get(language) ?? 0) + 1
+      languageCounts.set(language, count)
+      return count <= options.perLanguage
+    })
+  }
+
+  if (options.limit > 0) {
+    selected = selected.slice(0, options.limit)
+  }
+
+  // Better to show poor editions than to lose the work entirely, though in strict mode only preferred languages are left
+  return selected.length ? selected : ranked
+}
+
+/** Whether an edition is in one of the languages preferred for the current request */
+export function isPreferredLanguage(edition: Edition | null): boolean {
+  return edition !== null && languageRank(edition, getEditionOptions()) >= 0
+}
+
+/** Whether the current request has a language preference */
+export function hasLanguagePreference(): boolean {
+  return getEditionOptions().languages.length > 0
+}
+
+/**
+ * Parse per-request overrides of the edition options from query parameters
+ * editions=all turns off the filters, otherwise dedupe, requireLanguage, perLanguage, and editionLimit override the config
+ * Preferred languages are set with lang e.g. lang=fr,en or the Accept-Language header, and strictLanguage=true excludes others
+ */
+export function parseEditionOptions(
+  query: { [key: string]: string | string[] | undefined },
+  acceptLanguage: string | null = null,
+): Partial<EditionOptions> {
+  const boolean = (name: string) => {
+    if (query[name] === undefined) return undefined
+    if (query[name] === 'true' || query[name] === 'false') return query[name] === 'true'
+    throw new BadRequest(`\`${name}\` must be true or false`)
+  }
+  const number = (name: string) => {
+    if (query[name] === undefined) return undefined
+    const value = Number(query[name])
+    if (Number.isInteger(value) && value >= 0) return value
+    throw new BadRequest(`\`${name}\` must be a positive integer, or 0 for no limit`)
+  }
+
+  const values = {
+    dedupe: boolean('dedupe'),
+    requireLanguage: boolean('requireLanguage'),
+    perLanguage: number('perLanguage'),
+    limit: number('editionLimit'),
+    languages: query.lang !== undefined ? parseLanguages(query.lang) : parseAcceptLanguage(acceptLanguage),
+    strictLanguage: boolean('strictLanguage'),
+    // Languages are still preferred when every edition is returned
+    ...(query.editions === 'all' ? { dedupe: false, requireLanguage: false, perLanguage: 0, limit: 0 } : {}),
+  }
+
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined))
+}
+
+/** The config, with any overrides for the current request */
+function getEditionOptions(): EditionOptions {
+  const options = { ...config.editions, ...getContext()?.editionOptions }
+
+  return {
+    ...options,
+    languages: options.languages.map(formatters.toLanguageCode).filter((code): code is string => code !== null),
+  }
+}
+
+/** Parse the lang query parameter, which can be repeated or comma separated */
+function parseLanguages(lang: string | string[]): string[] {
+  const values = (Array.isArray(lang) ? lang : [lang]).flatMap((value) => value.split(','))
+  const codes = values.map((value) => formatters.toLanguageCode(value))
+
+  if (codes.some((code) => code === null)) {
+    throw new BadRequest(`Unknown language in \`lang\`: ${values.filter((_, i) => codes[i] === null).join(', ')}`)
+  }
+
+  return [...new Set(codes as string[])]
+}
+
+/** Parse languages from an Accept-Language header e.g. "fr-CA,fr;q=0.9,en;q=0.8", ignoring any we don't know */
+function parseAcceptLanguage(header: string | null): string[] | undefined {
+  if (!header) return undefined
+
+  const codes = header
+    .split(',')
+    .map((part, i) => {
+      const [language, ...params] = part.split(';')
+      const quality = params.map((param) => param.trim().match(/^q=([\d.]+)$/)?.[1]).find(Boolean)
+      return {
+        code: language.trim() === '*' ? null : formatters.toLanguageCode(language),
+        quality: Number(quality ?? 1),
+        i,
+      }
+    })
+    .filter((item) => item.code !== null && item.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.i - b.i)
+    .map((item) => item.code as string)
+
+  return codes.length ? [...new Set(codes)] : undefined
+}
+
+/** Position of the edition's language in the preferred languages, or -1 if it isn't one */
+function languageRank(edition: Edition, options: EditionOptions): number {
+  const ranks = (edition.languages ?? []).map((language) => options.languages.indexOf(language)).filter((i) => i >= 0)
+  return ranks.length ? Math.min(...ranks) : -1
+}
+
+function scoreEdition(edition: Edition, ratingCount: number): number {
+  const { weights } = config.editions
+
+  return (
+    (edition.covers?.some((cover) => Number(cover) > 0) ? weights.cover : 0) +
+    (edition.isbn_13?.length || edition.isbn_10?.length ? weights.isbn : 0) +
+    ((edition.numberOfPages ?? 0) > 0 ? weights.pages : 0) +
+    (edition.publishers?.length ? weights.publisher : 0) +
+    Math.log10(ratingCount + 1) * weights.ratings
+  )
+}
+
+/** Editions sharing any ISBN, or the same title, publisher, format, and language, are the same book */
+function duplicateKeys(edition: Edition): string[] {
+  const normalize = (text: string | undefined) =>
+    (text ?? '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, ' ')
+      .trim()
+
+  return [
+    ...(edition.isbn_13 ?? []).map((isbn) => `isbn:${isbn}`),
+    ...(edition.isbn_10 ?? []).map((isbn) => `isbn:${isbn}`),
+    [
+      'title',
+      normalize(edition.title),
+      normalize(edition.publishers?.[0]),
+      normalize(edition.physicalFormat),
+      edition.languages?.[0] ?? '',
+    ].join('|'),
+  ]
+}
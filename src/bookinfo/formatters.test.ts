@@ -0,0 +1,24 @@
+import { describe, expect, test } from 'bun:test'
+import { formatRole } from './formatters'
+
+describe('formatRole', () => {
+  test.each([
+    ['Translator', 'translator'],
+    ['translated by', 'translator'],
+    ['Edited and translated', 'translator'],
+    ['Narrator', 'narrator'],
+    ['Read by', 'narrator'],
+    ['Illustrations', 'illustrator'],
+    ['Cover art by', 'illustrator'],
+    ['Editor', 'editor'],
+    ['Writer', 'author'],
+    ['Foreword', 'contributor'],
+  ])('maps %p to %p', (role, expected) => {
+    expect(formatRole(role)).toBe(expected)
+  })
+
+  test('is a contributor without a role', () => {
+    expect(formatRole(undefined)).toBe('contributor')
+    expect(formatRole('')).toBe('contributor')
+  })
+})
@@ -90,6 +90,30 @@ export function formatLanguage(lang: string | undefined): string | null {
   )
 }
 
+/** Converts a language code or name e.g. "fr", "fr-CA", "fra", or "French" to the 3 character code OL uses, if it's known */
+export function toLanguageCode(lang: string): string | null {
+  lang = lang.trim().toLowerCase().split(/[-_]/)[0]
+  if (!lang) return null
+
+  return languages.toAlpha3B(lang) ?? languages.getAlpha3BCode(lang, 'en') ?? null
+}
+
+/** Maps a free text OL role (e.g. "Translated", "Illustrator") to a Readarr contributor role */
+export function formatRole(role: string | undefined): string {
+  if (role) {
+    role = role.toLowerCase()
+
+    // Order is important here, e.g. "edited and translated" is a translation
+    if (/translat/.test(role)) return 'translator'
+    if (/narrat|read by|reader|performed|perform/.test(role)) return 'narrator'
+    if (/illustrat|drawings|pictures|artwork|art by|artist|cover/.test(role)) return 'illustrator'
+    if (/edit/.test(role)) return 'editor'
+    if (/author|writ/.test(role)) return 'author'
+  }
+
+  return 'contributor'
+}
+
 /** Convert OL ID to Url **/
 export function formatUrl(key: string): string {
   return 'https://openlibrary.org' + key
@@ -0,0 +1,47 @@
+import { franc } from 'franc'
+
+// Common words dropped from title searches, by the language franc detects the title is in
+const stopWords: { [language: string]: string[] } = {
+  eng: ['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for'],
+  fra: ['le', 'la', 'les', 'un', 'une', 'des', 'du', 'de', 'et', 'ou', 'en', 'au', 'aux'],
+  deu: ['der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem', 'einer', 'und', 'oder', 'im', 'zu'],
+  spa: ['el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'y', 'o', 'de', 'del', 'en', 'al'],
+  ita: ['il', 'lo', 'la', 'gli', 'le', 'un', 'uno', 'una', 'e', 'o', 'di', 'del', 'della', 'in'],
+  por: ['o', 'a', 'os', 'as', 'um', 'uma', 'e', 'ou', 'de', 'do', 'da', 'dos', 'das', 'em', 'no', 'na'],
+  nld: ['de', 'het', 'een', 'en', 'of', 'in', 'op', 'van'],
+  rus: ['и', 'в', 'на', 'с', 'о', 'по', 'к', 'из'],
+}
+
+// Chinese and Japanese, which are written without spaces between words
+const cjk = '\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff'
+const cjkRuns = new RegExp(`[${cjk}]+|[^${cjk}]+`, 'gu')
+const cjkStart = new RegExp(`^[${cjk}]`, 'u')
+
+/** Collapse whitespace and case, so queries which only differ by them are the same */
+export function normaliseText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * Remove the stop words of the language the text is in, if it can be detected
+ * Titles made only of stop words e.g. "The The" are kept whole, as otherwise nothing would be searched for
+ */
+export function removeStopWords(words: string[], text: string): string[] {
+  const language = franc(text, { minLength: 3 })
+  const languageStopWords = stopWords[language] ?? []
+  const filtered = words.filter((word) => !languageStopWords.includes(word))
+
+  return filtered.length > 0 ? filtered : words
+}
+
+/**
+ * Split Chinese and Japanese in a word into overlapping pairs of characters, which is how search_text() indexes them
+ * e.g. "東京物語" becomes "東京", "京物", and "物語"
+ */
+export function splitCjk(word: string): string[] {
+  return (word.match(cjkRuns) ?? []).flatMap((part) =>
+    cjkStart.test(part) && part.length > 1
+      ? Array.from({ length: part.length - 1 }, (_, i) => part.slice(i, i + 2))
+      : [part],
+  )
+}
@@ -0,0 +1,96 @@
+import { describe, expect, test } from 'bun:test'
+import { parseQuery, termsToText } from './query'
+import { BadRequest } from 'fejl'
+
+const word = (text: string, negated = false) => ({ text, phrase: false, negated })
+const phrase = (text: string, negated = false) => ({ text, phrase: true, negated })
+
+describe('parseQuery', () => {
+  test('splits text into words', () => {
+    expect(parseQuery('  the colour  of magic ').text).toEqual(
+      ['the', 'colour', 'of', 'magic'].map((text) => word(text)),
+    )
+  })
+
+  test('parses fields', () => {
+    const parsed = parseQuery('title:mort Author:pratchett publisher:corgi series:discworld year:1987 lang:en,fr')
+
+    expect(parsed).toEqual({
+      text: [],
+      title: [word('mort')],
+      author: [word('pratchett')],
+      publisher: [word('corgi')],
+      series: [word('discworld')],
+      years: { from: 1987, to: 1987 },
+      languages: ['eng', 'fre'],
+      lookups: [],
+    })
+  })
+
+  test('parses year ranges', () => {
+    expect(parseQuery('mort year:1980-1989').years).toEqual({ from: 1980, to: 1989 })
+  })
+
+  test('leaves unknown and empty fields as text', () => {
+    expect(parseQuery('star wars: heir to the empire').text.map((term) => term.text)).toContain('wars:')
+    expect(parseQuery('foo:bar').text).toEqual([word('foo:bar')])
+  })
+
+  test('parses quoted phrases', () => {
+    const parsed = parseQuery('"the shining" title:"dark tower"')
+
+    expect(parsed.text).toEqual([phrase('the shining')])
+    expect(parsed.title).toEqual([phrase('dark tower')])
+  })
+
+  test('parses negated terms', () => {
+    const parsed = parseQuery('king -shining -series:"dark tower" - man')
+
+    // A dash on its own isn't a negation, or a term
+    expect(parsed.text).toEqual([word('king'), word('shining', true), word('man')])
+    expect(parsed.series).toEqual([phrase('dark tower', true)])
+  })
+
+  test('looks up OL keys and ISBNs on their own', () => {
+    expect(parseQuery('OL82563W').lookups).toEqual([{ type: 'work', id: 'OL82563W' }])
+    expect(parseQuery('ol23919a').lookups).toEqual([{ type: 'author', id: 'OL23919A' }])
+    expect(parseQuery('/books/OL22856696M').lookups).toEqual([{ type: 'edition', id: '/books/OL22856696M' }])
+    expect(parseQuery('9780747532699').lookups).toEqual([{ type: 'isbn', id: '9780747532699' }])
+  })
+
+  test('looks up IDs after a field', () => {
+    expect(parseQuery('author:1077326').lookups).toEqual([{ type: 'author', id: '1077326' }])
+    expect(parseQuery('work:OL82563W').lookups).toEqual([{ type: 'work', id: 'OL82563W' }])
+    expect(parseQuery('edition:OL22856696M').lookups).toEqual([{ type: 'edition', id: 'OL22856696M' }])
+    expect(parseQuery('isbn:978-0-7475-3269-9').lookups).toEqual([{ type: 'isbn', id: '9780747532699' }])
+    expect(parseQuery('isbn:0-7475-3269-9').lookups).toEqual([{ type: 'isbn', id: '0747532699' }])
+  })
+
+  test.each([
+    ['an unclosed quote', 'title:"the shining'],
+    ['empty quotes', 'king ""'],
+    ['a lookup with other terms', 'OL82563W mort'],
+    ['only negated terms', '-mort'],
+    ['only filters', 'publisher:corgi year:1987'],
+    ['a negated lookup', '-OL82563W'],
+    ['a negated field which can only be included', 'mort -year:1987'],
+    ["a work which isn't an ID", 'work:mort'],
+    ["an edition which isn't an ID", 'edition:OL1W1'],
+    ['an ID which is too large', 'OL99999999999W'],
+    ['an invalid year', 'mort year:nineteen'],
+    ['a year range the wrong way round', 'mort year:1990-1980'],
+    ['a repeated year', 'mort year:1980 year:1990'],
+    ['an unknown language', 'mort lang:klingon'],
+    ['an ISBN of the wrong length', 'isbn:12345'],
+    ["an ISBN which isn't a number", 'isbn:mort'],
+    ['an ISBN with the wrong check digit', 'isbn:9780747532698'],
+  ])('rejects %s', (_, query) => {
+    expect(() => parseQuery(query)).toThrow(BadRequest)
+  })
+})
+
+describe('termsToText', () => {
+  test("joins the terms which aren't negated", () => {
+    expect(termsToText([word('dark'), phrase('the shining', true), phrase('tower')])).toBe('dark tower')
+  })
+})
@@ -0,0 +1,245 @@
+import * as ids from '../ids'
+import * as formatters from './formatters'
+import { BadRequest } from 'fejl'
+import ISBN from 'isbn3'
+
+/** A word or quoted phrase from a search query */
+export interface SearchTerm {
+  text: string
+  phrase: boolean
+  negated: boolean
+}
+
+/** A record to look up directly rather than search for */
+export interface Lookup {
+  type: 'author' | 'work' | 'edition' | 'isbn'
+  id: string
+}
+
+/** A parsed search query, where each list of terms must all match */
+export interface SearchQuery {
+  // Terms not in a field, which match titles and author names
+  text: SearchTerm[]
+  title: SearchTerm[]
+  author: SearchTerm[]
+  publisher: SearchTerm[]
+  series: SearchTerm[]
+  years: { from: number; to: number } | null
+  // OL language codes, works need an edition in one of them
+  languages: string[]
+  lookups: Lookup[]
+}
+
+const fields = ['title', 'author', 'year', 'lang', 'publisher', 'series', 'work', 'edition', 'isbn'] as const
+type Field = (typeof fields)[number]
+
+// Full or short OL keys e.g. /works/OL123W or OL123W, and numeric Readarr or Goodreads IDs
+const olKey = /^(?:\/(?:authors|works|books)\/)?OL\d+[AWM]$/i
+const numericId = /^\d+$/
+const isbn = /^\d{9}[\dXx]$|^\d{12}[\dXx]$/
+
+/**
+ * Parse a search query e.g. `title:"the shining" author:king year:1977 lang:en -series:"dark tower"`
+ * Terms can be fields, quoted phrases, or negated with a leading -, and OL keys or ISBNs on their own are looked up
+ * author:, work:, and edition: followed by an ID also look it up, as Readarr searches for IDs that way
+ */
+export function parseQuery(query: string): SearchQuery {
+  const parsed: SearchQuery = {
+    text: [],
+    title: [],
+    author: [],
+    publisher: [],
+    series: [],
+    years: null,
+    languages: [],
+    lookups: [],
+  }
+
+  for (const token of tokenize(query)) {
+    addToken(parsed, token)
+  }
+
+  const lookups = parsed.lookups.length > 0
+  const terms = [parsed.text, parsed.title, parsed.author, parsed.publisher, parsed.series].flat()
+
+  if (lookups && (terms.length > 0 || parsed.years || parsed.languages.length > 0)) {
+    throw new BadRequest('IDs and ISBNs can only be searched for on their own')
+  }
+
+  if (!lookups && ![parsed.text, parsed.title, parsed.author].flat().some((term) => !term.negated)) {
+    throw new BadRequest('Search needs some text, a title, or an author to search for')
+  }
+
+  return parsed
+}
+
+/** The words of the terms which aren't negated, for comparing results against */
+export function termsToText(terms: SearchTerm[]): string {
+  return terms
+    .filter((term) => !term.negated)
+    .map((term) => term.text)
+    .join(' ')
+}
+
+interface Token {
+  field: Field | null
+  value: string
+  phrase: boolean
+  negated: boolean
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++
+      continue
+    }
+
+    const start = i
+    const negated = query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])
+    if (negated) i++
+
+    // Unknown or empty fields are left as text, as titles often contain colons e.g. "Star Wars: Heir to the Empire"
+    const fieldMatch = query.slice(i).match(/^([a-z]+):(?=\S)/i)
+    const field =
+      fieldMatch && (fields as readonly string[]).includes(fieldMatch[1].toLowerCase()) ? fieldMatch[1] : null
+    if (field) i += field.length + 1
+
+    let value: string
+    const phrase = query[i] === '"'
+
+    if (phrase) {
+      const end = query.indexOf('"', i + 1)
+
+      if (end === -1) {
+        throw new BadRequest(`Unclosed quote at position ${i + 1} of the query`)
+      }
+
+      value = query.slice(i + 1, end).trim()
+      i = end + 1
+
+      if (!value) {
+        throw new BadRequest(`Empty quotes at position ${start + 1} of the query`)
+      }
+    } else {
+      const end = query.slice(i).search(/\s/)
+      value = end === -1 ? query.slice(i) : query.slice(i, i + end)
+      i += value.length
+    }
+
+    tokens.push({ field: field ? (field.toLowerCase() as Field) : null, value, phrase, negated })
+  }
+
+  return tokens
+}
+
+function addToken(parsed: SearchQuery, { field, value, phrase, negated }: Token): void {
+  const term = { text: value, phrase, negated }
+
+  const assertNotNegated = () => {
+    if (negated) throw new BadRequest(`\`${field ?? value}${field ? ':' : ''}\` can't be negated`)
+  }
+
+  switch (field) {
+    case null:
+      if (!phrase && (olKey.test(value) || isbn.test(value))) {
+        assertNotNegated()
+        if (!isbn.test(value)) assertInRange(value)
+        parsed.lookups.push(
+          isbn.test(value) ? { type: 'isbn', id: value } : { type: keyType(value), id: formatId(value) },
+        )
+      } else if (phrase || /[\p{L}\p{N}]/u.test(value)) {
+        // Punctuation on its own e.g. the dash in "Spider - Man" isn't a term
+        parsed.text.push(term)
+      }
+      break
+
+    case 'author':
+      if (!phrase && (olKey.test(value) || numericId.test(value))) {
+        assertNotNegated()
+        assertInRange(value)
+        parsed.lookups.push({ type: 'author', id: formatId(value) })
+      } else {
+        parsed.author.push(term)
+      }
+      break
+
+    case 'work':
+    case 'edition':
+      assertNotNegated()
+      if (!olKey.test(value) && !numericId.test(value)) {
+        throw new BadRequest(`\`${field}:\` must be followed by an Open Library or Goodreads ID`)
+      }
+      assertInRange(value)
+      parsed.lookups.push({ type: field, id: formatId(value) })
+      break
+
+    case 'isbn': {
+      assertNotNegated()
+      const id = value.replace(/-/g, '')
+
+      // Otherwise it would just find nothing, without saying why
+      if (!isbn.test(id) || !ISBN.parse(id)?.isValid) {
+        throw new BadRequest('`isbn:` must be followed by a valid ISBN-10 or ISBN-13')
+      }
+
+      parsed.lookups.push({ type: 'isbn', id })
+      break
+    }
+
+    case 'title':
+    case 'publisher':
+    case 'series':
+      parsed[field].push(term)
+      break
+
+    case 'year': {
+      assertNotNegated()
+      const match = value.match(/^(\d{1,4})(?:-(\d{1,4}))?$/)
+
+      if (!match) {
+        throw new BadRequest('`year:` must be a year e.g. 1990, or a range e.g. 1990-1999')
+      }
+
+      const from = Number(match[1])
+      const to = Number(match[2] ?? match[1])
+
+      if (parsed.years || from > to) {
+        throw new BadRequest('`year:` can only be given once, with the earliest year first')
+      }
+
+      parsed.years = { from, to }
+      break
+    }
+
+    case 'lang':
+      assertNotNegated()
+      for (const language of value.split(',')) {
+        const code = formatters.toLanguageCode(language)
+        if (!code) throw new BadRequest(`Unknown language in \`lang:\`: ${language}`)
+        parsed.languages.push(code)
+      }
+      break
+  }
+}
+
+/** IDs too large to be Readarr IDs can't exist, and would otherwise fail when converted */
+function assertInRange(id: string): void {
+  if (!ids.isInRange(id)) {
+    throw new BadRequest(`ID is too large: ${id}`)
+  }
+}
+
+/** The type of record an OL key is for, from its suffix */
+function keyType(key: string): Lookup['type'] {
+  const suffix = key.slice(-1).toUpperCase()
+  return suffix === 'A' ? 'author' : suffix === 'W' ? 'work' : 'edition'
+}
+
+/** Short OL keys are case sensitive when converted, so always use upper case */
+function formatId(id: string): string {
+  return id.startsWith('/') ? id : id.toUpperCase()
+}
@@ -0,0 +1,120 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import config from '../config'
+import db from '../database'
+import { resetDatabase } from '../testing'
+import { explainScore, rank, scaleCount, sqlScore, trigramSimilarity } from './ranking'
+
+const weights = config.search.weights
+
+describe('scaleCount', () => {
+  test('is 0 for nothing and reaches 1 at the scale of the feature', () => {
+    expect(scaleCount('editions', 0)).toBe(0)
+    expect(scaleCount('editions', 1000)).toBe(1)
+    expect(scaleCount('ratings', 100_000)).toBe(1)
+  })
+
+  test('is log scaled', () => {
+    expect(scaleCount('editions', 9)).toBeCloseTo(1 / 3, 2)
+    expect(scaleCount('editions', 99)).toBeCloseTo(2 / 3, 2)
+  })
+
+  test("doesn't go past 0 or 1", () => {
+    expect(scaleCount('editions', -5)).toBe(0)
+    expect(scaleCount('editions', 1_000_000)).toBe(1)
+  })
+
+  test('leaves features which are already from 0 to 1 alone', () => {
+    expect(scaleCount('title', 0.5)).toBe(0.5)
+  })
+})
+
+describe('explainScore', () => {
+  test('adds up the weighted features', () => {
+    const explanation = explainScore({ title: 0.5, editions: 1 })
+
+    expect(explanation.score).toBeCloseTo(0.5 * weights.title + weights.editions, 3)
+    expect(explanation.features.title).toEqual({ value: 0.5, weight: weights.title, score: 0.5 * weights.title })
+    expect(explanation.features.author).toBeUndefined()
+  })
+
+  test('rounds to 3 decimal places', () => {
+    const explanation = explainScore({ title: 1 / 3 })
+
+    expect(explanation.features.title?.value).toBe(0.333)
+    expect(explanation.score).toBe(Math.round((weights.title / 3) * 1000) / 1000)
+  })
+
+  test('is 0 without any features', () => {
+    expect(explainScore({})).toEqual({ score: 0, features: {} })
+  })
+})
+
+describe('rank', () => {
+  test('sorts best first, keeping the existing order for ties', () => {
+    const items = [
+      { name: 'a', title: 0.2 },
+      { name: 'b', title: 0.9 },
+      { name: 'c', title: 0.2 },
+    ]
+
+    expect(rank(items, ({ title }) => ({ title })).map(({ item }) => item.name)).toEqual(['b', 'a', 'c'])
+  })
+})
+
+describe('sqlScore', () => {
+  test('weights similarities as they are', () => {
+    expect(sqlScore({ title: 'similarity(title, $1)' })).toBe(`(COALESCE(similarity(title, $1), 0) * ${weights.title})`)
+  })
+
+  test('log scales counts the same as scaleCount', () => {
+    expect(sqlScore({ editions: 'edition_count' })).toBe(
+      `(LEAST(1, log(GREATEST(edition_count, 0) + 1) / log(1001)) * ${weights.editions})`,
+    )
+  })
+
+  test('adds up each feature', () => {
+    expect(sqlScore({ title: 'a', author: 'b' })).toBe(
+      `(COALESCE(a, 0) * ${weights.title} + COALESCE(b, 0) * ${weights.author})`,
+    )
+  })
+
+  test('is 0 without any features', () => {
+    expect(sqlScore({})).toBe('0')
+  })
+})
+
+describe('trigramSimilarity', () => {
+  // Pairs to compare against pg_trgm, covering case, punctuation, repeated words, and partial matches
+  const pairs: [string, string][] = [
+    ['word', 'two words'],
+    ['The Shining', 'the shining'],
+    ["Harry Potter and the Philosopher's Stone", 'harry potter'],
+    ['Guards! Guards!', 'guards'],
+    ['Brandon Sanderson', 'sandersen'],
+    ['J. K. Rowling', 'jk rowling'],
+    ['Mort', 'Hogfather'],
+  ]
+
+  test('is 1 for the same words and 0 for nothing in common', () => {
+    expect(trigramSimilarity('The Shining', 'the  shining!')).toBe(1)
+    expect(trigramSimilarity('abc', 'xyz')).toBe(0)
+    expect(trigramSimilarity('', 'xyz')).toBe(0)
+  })
+
+  test('pads each word like pg_trgm', () => {
+    // "  w", " wo", "wor", "ord" are shared out of the 11 distinct trigrams
+    expect(trigramSimilarity('word', 'two words')).toBeCloseTo(4 / 11, 5)
+  })
+
+  describe('in the database', () => {
+    beforeAll(() => resetDatabase())
+
+    test.each(pairs)('matches similarity() for %p and %p', async (a, b) => {
+      const expected: number = await db
+        .query('SELECT similarity($1, $2) AS similarity', [a, b])
+        .then((res) => res.rows[0].similarity)
+
+      expect(trigramSimilarity(a, b)).toBeCloseTo(expected, 5)
+    })
+  })
+})
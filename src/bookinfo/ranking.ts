@@ -0,0 +1,116 @@
+import config from '../config'
+
+/**
+ * Signals of how good a search result is, each normalised from 0 to 1
+ * title and author are trigram similarity to what was searched for, the same as pg_trgm's similarity()
+ */
+export interface Features {
+  title: number
+  author: number
+  editions: number
+  revision: number
+  ratings: number
+  language: number
+  // Only used to choose which authors to search the works of
+  works: number
+}
+
+export type Feature = keyof Features
+
+/** How a score was reached, returned with search results when debugging */
+export interface Explanation {
+  score: number
+  features: { [feature in Feature]?: { value: number; weight: number; score: number } }
+}
+
+// Counts are log scaled so a few huge works don't drown out everything else, reaching 1 at these
+const scales: { [feature in Feature]?: number } = {
+  editions: 1000,
+  revision: 100,
+  ratings: 100_000,
+  works: 1000,
+}
+
+/** Score a result from its features, using the weights in config.search.weights */
+export function explainScore(features: Partial<Features>): Explanation {
+  const explanation: Explanation = { score: 0, features: {} }
+
+  for (const [feature, value] of Object.entries(features) as [Feature, number][]) {
+    const weight = config.search.weights[feature]
+    const score = value * weight
+
+    explanation.features[feature] = { value: round(value), weight, score: round(score) }
+    explanation.score += score
+  }
+
+  explanation.score = round(explanation.score)
+  return explanation
+}
+
+/** Sort items best first by the score of their features, keeping the existing order for ties */
+export function rank<T>(
+  items: T[],
+  getFeatures: (item: T) => Partial<Features>,
+): { item: T; explanation: Explanation }[] {
+  return items
+    .map((item, i) => ({ item, explanation: explainScore(getFeatures(item)), i }))
+    .sort((a, b) => b.explanation.score - a.explanation.score || a.i - b.i)
+    .map(({ item, explanation }) => ({ item, explanation }))
+}
+
+/** Normalise a count feature e.g. the number of editions of a work */
+export function scaleCount(feature: Feature, count: number): number {
+  const scale = scales[feature]
+  if (!scale) return count
+
+  return Math.min(1, Math.log10(Math.max(0, count) + 1) / Math.log10(scale + 1))
+}
+
+/**
+ * The SQL for a weighted score, so queries choose the same candidates the results are ranked by
+ * Columns are SQL expressions for each feature, with similarities already from 0 to 1 and counts raw
+ */
+export function sqlScore(columns: { [feature in Feature]?: string }): string {
+  const terms = (Object.entries(columns) as [Feature, string][]).map(([feature, column]) => {
+    const scale = scales[feature]
+    const value = scale ? `LEAST(1, log(GREATEST(${column}, 0) + 1) / log(${scale + 1}))` : `COALESCE(${column}, 0)`
+    return `${value} * ${config.search.weights[feature]}`
+  })
+
+  return terms.length ? `(${terms.join(' + ')})` : '0'
+}
+
+/** Trigram similarity between two strings from 0 to 1, matching pg_trgm so scores agree with the database */
+export function trigramSimilarity(a: string, b: string): number {
+  const aTrigrams = trigrams(a)
+  const bTrigrams = trigrams(b)
+
+  if (!aTrigrams.size || !bTrigrams.size) {
+    return 0
+  }
+
+  const shared = [...aTrigrams].filter((trigram) => bTrigrams.has(trigram)).length
+  return shared / (aTrigrams.size + bTrigrams.size - shared)
+}
+
+/** pg_trgm lower cases each word, and pads it with two spaces before and one after */
+function trigrams(text: string): Set<string> {
+  const result = new Set<string>()
+
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 0)
+    .forEach((word) => {
+      const padded = `  ${word} `
+      for (let i = 0; i < padded.length - 2; i++) {
+        result.add(padded.slice(i, i + 3))
+      }
+    })
+
+  return result
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
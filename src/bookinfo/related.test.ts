@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import type { Edition, Series, Work } from '../types'
+import config from '../config'
+import * as ids from '../ids'
+import { rankRelatedWorks } from './related'
+
+const { limit } = config.related
+
+afterEach(() => {
+  config.related.limit = limit
+})
+
+function work(n: number, data: Partial<Work> = {}): Work {
+  return { key: `/works/OL${n}W`, title: `Work ${n}`, ...data } as Work
+}
+
+function id(n: number): number {
+  return ids.encodeReadarrId(`/works/OL${n}W`)
+}
+
+function series(seriesId: number, ...works: number[]): Series[] {
+  return works.map((n, i) => ({ seriesId, workId: id(n), position: String(i + 1), title: `Series ${seriesId}` }))
+}
+
+describe('rankRelatedWorks', () => {
+  test('relates other works in the same series', () => {
+    const related = rankRelatedWorks(work(1), [], [], [...series(10, 1, 2, 3), ...series(20, 4, 5)])
+
+    expect(related).toEqual([id(2), id(3)])
+  })
+
+  test('relates works by how many subjects they share', () => {
+    const related = rankRelatedWorks(
+      work(1, { subjects: ['Fantasy', 'Wizards', 'Schools'] }),
+      [
+        work(2, { subjects: ['fantasy'] }),
+        work(3, { subjects: ['Fantasy', 'Wizards'] }),
+        work(4, { subjects: ['Cooking'] }),
+        work(5),
+      ],
+      [],
+      [],
+    )
+
+    expect(related).toEqual([id(3), id(2)])
+  })
+
+  test('relates translations either way round', () => {
+    const editions = [
+      { key: '/books/OL1M', workKey: '/works/OL1W', translationOf: 'Der Zauberberg' },
+      { key: '/books/OL3M', workKey: '/works/OL3W', translationOf: 'The Magic Mountain' },
+    ] as Edition[]
+
+    const related = rankRelatedWorks(
+      work(1, { title: 'The Magic Mountain' }),
+      [work(2, { title: 'der zauberberg' }), work(3, { title: 'La montagne magique' }), work(4)],
+      editions,
+      [],
+    )
+
+    expect(related.sort()).toEqual([id(2), id(3)].sort())
+  })
+
+  test('ranks translations, then series, then subjects', () => {
+    const related = rankRelatedWorks(
+      work(1, { title: 'Mort', subjects: ['Death'] }),
+      [work(2, { subjects: ['Death'] }), work(3), work(4, { title: 'Mortal' })],
+      [{ key: '/books/OL4M', workKey: '/works/OL4W', translationOf: 'Mort' } as Edition],
+      series(10, 1, 3),
+    )
+
+    expect(related).toEqual([id(4), id(3), id(2)])
+  })
+
+  test("doesn't relate a work to itself", () => {
+    const self = work(1, { subjects: ['Fantasy'] })
+    const related = rankRelatedWorks(self, [self, work(2, { subjects: ['Fantasy'] })], [], series(10, 1, 2))
+
+    expect(related).toEqual([id(2)])
+  })
+
+  test('returns at most the configured limit', () => {
+    config.related.limit = 2
+
+    const related = rankRelatedWorks(work(1), [], [], series(10, 1, 2, 3, 4, 5))
+
+    // Ties are in ID order
+    expect(related).toEqual([id(2), id(3), id(4), id(5)].sort((a, b) => a - b).slice(0, 2))
+  })
+})
@@ -0,0 +1,100 @@
+import type { Edition, Series, Work } from '../types'
+import config from '../config'
+import * as ids from '../ids'
+
+// How much each kind of relationship counts towards the ranking
+const weights = {
+  // Translations are effectively the same book
+  translation: 4,
+  series: 3,
+  // Multiplied by the proportion of subjects the works share
+  subjects: 2,
+}
+
+/**
+ * Ranks related works in Readarr ID format, most related first
+ * Candidates are other works by the same author(s), editions are used to find translations
+ */
+export function rankRelatedWorks(work: Work, candidates: Work[], editions: Edition[], series: Series[]): number[] {
+  const workId = ids.encodeReadarrId(work.key)
+  const scores = new Map<number, number>()
+
+  const addScore = (id: number, score: number) => {
+    if (id !== workId && score > 0) {
+      scores.set(id, (scores.get(id) ?? 0) + score)
+    }
+  }
+
+  // Other works in the same series
+  const seriesIds = new Set(series.filter((item) => item.workId === workId).map((item) => item.seriesId))
+  series.filter((item) => seriesIds.has(item.seriesId)).forEach((item) => addScore(item.workId, weights.series))
+
+  const subjects = getSubjects(work)
+  const title = normalize(work.title ?? '')
+  const translations = getTranslations(editions)
+
+  // Titles this work is a translation of
+  const translatedFrom = translations.get(work.key)
+
+  candidates.forEach((candidate) => {
+    const candidateId = ids.encodeReadarrId(candidate.key)
+
+    if (translatedFrom?.has(normalize(candidate.title ?? '')) || translations.get(candidate.key)?.has(title)) {
+      addScore(candidateId, weights.translation)
+    }
+
+    // Jaccard similarity of the subjects
+    const candidateSubjects = getSubjects(candidate)
+    const shared = [...candidateSubjects].filter((subject) => subjects.has(subject)).length
+
+    if (shared) {
+      addScore(candidateId, (shared / (subjects.size + candidateSubjects.size - shared)) * weights.subjects)
+    }
+  })
+
+  return [...scores.entries()]
+    .sort(([aId, aScore], [bId, bScore]) => bScore - aScore || aId - bId)
+    .slice(0, config.related.limit)
+    .map(([id]) => id)
+}
+
+// The same works and editions are ranked against each other many times for an author
+const subjectsCache = new WeakMap<Work, Set<string>>()
+const translationsCache = new WeakMap<Edition[], Map<string, Set<string>>>()
+
+/** Normalised subjects of a work */
+function getSubjects(work: Work): Set<string> {
+  let subjects = subjectsCache.get(work)
+
+  if (!subjects) {
+    subjects = new Set((work.subjects ?? []).map(normalize))
+    subjectsCache.set(work, subjects)
+  }
+
+  return subjects
+}
+
+/** Work key -> normalised titles its editions are translations of */
+function getTranslations(editions: Edition[]): Map<string, Set<string>> {
+  let translations = translationsCache.get(editions)
+
+  if (!translations) {
+    translations = new Map()
+
+    for (const edition of editions) {
+      if (edition.workKey && edition.translationOf) {
+        const titles = translations.get(edition.workKey) ?? new Set()
+        titles.add(normalize(edition.translationOf))
+        translations.set(edition.workKey, titles)
+      }
+    }
+
+    translationsCache.set(editions, translations)
+  }
+
+  return translations
+}
+
+function normalize(text: string): string {
+  return text.trim().toLowerCase()
+}
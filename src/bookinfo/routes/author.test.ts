@@ -0,0 +1,28 @@
+import { beforeAll, expect, test } from 'bun:test'
+import { readarrId, request, seedDatabase } from '../../testing'
+import author from './author'
+
+beforeAll(() => seedDatabase())
+
+test("the number of queries doesn't grow with the number of works", async () => {
+  // Every edition credits names, which are looked up to find the authors they refer to
+  const one = await request(() => author(readarrId('/authors/OL25712A'), null, 1))
+  const many = await request(() => author(readarrId('/authors/OL25712A')))
+
+  expect(one.body.Works).toHaveLength(1)
+  expect(many.body.Works).toHaveLength(20)
+  expect(many.body.Works[0].Books[0].Contributors).toContainEqual({
+    ForeignId: Number(readarrId('/authors/OL26A')),
+    Role: 'illustrator',
+  })
+  expect(many.queries).toBe(one.queries)
+})
+
+test("the number of queries doesn't grow with the size of a page", async () => {
+  const small = await request(() => author(readarrId('/authors/OL25712A'), null, 1000, { offset: 0, limit: 2 }))
+  const large = await request(() => author(readarrId('/authors/OL25712A'), null, 1000, { offset: 2, limit: 10 }))
+
+  expect(small.body.Works).toHaveLength(2)
+  expect(large.body.Works).toHaveLength(10)
+  expect(large.queries).toBe(small.queries)
+})
@@ -1,13 +1,19 @@
-import type { Author, Edition, Work } from '../../types'
-import type { BookInfoWork } from '../types'
+import type { Edition, Series, Work } from '../../types'
+import type { BookInfoAuthor, BookInfoWork } from '../types'
 import { convertAuthor, convertSeries, convertWork } from '../convert'
+import { rankRelatedWorks } from '../related'
+import config from '../../config'
+import { bindContext, getContext, setCacheStatus } from '../../context'
 import * as ids from '../../ids'
+import { clearLoaders } from '../../loader'
+import * as log from '../../log'
 import * as model from '../../model'
 
 export default async function author(
   id: string,
   editionId: string | null = null,
   workLimit: number = 1000,
+  page: { offset: number; limit: number } | null = null,
 ): Promise<Response> {
   try {
     const key = ids.isGoodreadsId(id) ? await model.authorToOl(id) : ids.convertOlId(id, 'author')
@@ -19,7 +25,10 @@ export default async function author(
     // If there's an edition we will limit to just that
     const edition = editionId ? await model.getEdition(editionId) : null
 
-    if (!edition) {
+    // Precomputed responses use the default edition options, so can't be used when they're overridden
+    const editionOptions = getContext()?.editionOptions ?? {}
+
+    if (!edition && !page && Object.keys(editionOptions).length === 0) {
       const response = await getCachedResponse(key)
       if (response) return response
     }
@@ -31,34 +40,119 @@ export default async function author(
 
     const bookInfoAuthor = await convertAuthor(author)
 
-    bookInfoAuthor.Works = (await getWorks(author, edition, workLimit)).map((work: BookInfoWork) => {
-      // Readarr expects this nested like a Russian doll
-      work.Authors = [{ ...bookInfoAuthor, Works: [] }]
-      return work
-    })
+    const works = edition
+      ? [await model.getWork(edition.workKey)].filter((work): work is Work => work !== null)
+      : page
+        ? await model.getAuthorWorks(author.key, Math.min(page.limit, config.author.maxPageSize), page.offset)
+        : await model.getAuthorWorks(author.key, workLimit)
 
-    // Calculate total rating count and average rating across all works
-    const totalRatings = bookInfoAuthor.Works.reduce((sum, work) => sum + work.RatingCount, 0)
-    const totalAverage = bookInfoAuthor.Works.reduce((sum, work) => sum + work.AverageRating * work.RatingCount, 0)
+    const headers: { [key: string]: string } = { 'Content-Type': 'application/json' }
 
-    bookInfoAuthor.RatingCount = totalRatings
-    bookInfoAuthor.AverageRating = totalRatings > 0 ? Number((totalAverage / totalRatings).toFixed(1)) : 0.0
+    if (page && !edition) {
+      headers['X-Total-Count'] = String(await model.getAuthorWorkCount(author.key))
+    }
 
-    bookInfoAuthor.Series = convertSeries(
-      await model.getWorkSeries(bookInfoAuthor.Works.map((work) => ids.decodeReadarrId(work.ForeignId, 'work'))),
-    )
+    // Related works are found amongst the author's works, but a page only has some of them
+    const candidates =
+      page && !edition ? await model.getPrimaryAuthorWorks(author.key, config.related.candidates) : works
 
-    return new Response(JSON.stringify(bookInfoAuthor), {
-      headers: { 'Content-Type': 'application/json' },
-    })
+    return new Response(streamJson(renderAuthor(bookInfoAuthor, works, candidates, edition)), { headers })
   } catch (error) {
     const err = error as Error
     throw new Error(`Error processing author: ${err.message}`)
   }
 }
 
+/** Renders the author JSON in pieces, converting works a chunk at a time so their editions aren't all in memory at once */
+async function* renderAuthor(
+  bookInfoAuthor: BookInfoAuthor,
+  works: Work[],
+  candidates: Work[],
+  edition: Edition | null,
+): AsyncGenerator<string> {
+  const { Works, Series, RatingCount, AverageRating, ...fields } = bookInfoAuthor
+
+  // Readarr expects this nested like a Russian doll
+  const nestedAuthor = { ...bookInfoAuthor, Works: [] }
+
+  yield JSON.stringify(fields).slice(0, -1) + ',"Works":['
+
+  let count = 0
+  let totalRatings = 0
+  let totalAverage = 0
+
+  // Series and release dates are small, so are kept to work out the author's series at the end
+  const series = new Map<string, Series>()
+  const releaseDates: Pick<BookInfoWork, 'ForeignId' | 'ReleaseDate'>[] = []
+
+  for (let i = 0; i < works.length; i += config.author.chunkSize) {
+    const chunk = await getWorks(works.slice(i, i + config.author.chunkSize), candidates, edition)
+
+    // Loaders memoise for the whole request, which would otherwise keep every chunk's editions until the end
+    clearLoaders()
+
+    chunk.series.forEach((item) => series.set(`${item.seriesId}:${item.workId}`, item))
+
+    for (const work of chunk.works) {
+      work.Authors = [nestedAuthor]
+
+      totalRatings += work.RatingCount
+      totalAverage += work.AverageRating * work.RatingCount
+      releaseDates.push({ ForeignId: work.ForeignId, ReleaseDate: work.ReleaseDate })
+
+      yield (count++ ? ',' : '') + JSON.stringify(work)
+    }
+  }
+
+  // Only include series which have at least one of the works we're returning
+  const workIds = new Set(releaseDates.map((work) => work.ForeignId))
+  const seriesItems = [...series.values()]
+  const seriesIds = new Set(seriesItems.filter((item) => workIds.has(item.workId)).map((item) => item.seriesId))
+
+  const bookInfoSeries = convertSeries(
+    seriesItems.filter((item) => seriesIds.has(item.seriesId)),
+    releaseDates,
+  )
+
+  // Calculate total rating count and average rating across all works
+  yield '],' +
+    JSON.stringify({
+      Series: bookInfoSeries,
+      RatingCount: totalRatings,
+      AverageRating: totalRatings > 0 ? Number((totalAverage / totalRatings).toFixed(1)) : 0.0,
+    }).slice(1)
+}
+
+/** Encode chunks of text as a stream, only generating the next chunk once the previous has been read */
+function streamJson(chunks: AsyncGenerator<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+
+  return new ReadableStream({
+    // Pulled after the route has returned, so needs binding to the request for its loaders and options
+    pull: bindContext(async (controller: ReadableStreamDefaultController<Uint8Array>) => {
+      try {
+        const { value, done } = await chunks.next()
+
+        if (done) {
+          controller.close()
+        } else {
+          controller.enqueue(encoder.encode(value))
+        }
+      } catch (error) {
+        // Headers have already been sent, so all we can do is abort the response
+        log.error('Error streaming author', error)
+        controller.error(error)
+      }
+    }),
+    async cancel() {
+      await chunks.return(undefined)
+    },
+  })
+}
+
 async function getCachedResponse(id: string): Promise<Response | null> {
   const response = await model.getCache('/type/author', id)
+  setCacheStatus(response ? 'hit' : 'miss')
 
   return response
     ? new Response(response, {
@@ -67,26 +161,33 @@ async function getCachedResponse(id: string): Promise<Response | null> {
     : null
 }
 
-async function getWorks(author: Author, edition: Edition | null, workLimit: number | null): Promise<BookInfoWork[]> {
-  const works = edition
-    ? [await model.getWork(edition.workKey)].filter((work): work is Work => work !== null)
-    : await model.getAuthorWorks(author.key, workLimit)
-
+async function getWorks(
+  works: Work[],
+  candidates: Work[],
+  edition: Edition | null,
+): Promise<{ works: BookInfoWork[]; series: Series[] }> {
   const workKeys = works.map((work) => work.key)
 
-  const [editions, ratings] = await Promise.all([
+  const [editions, ratings, series] = await Promise.all([
     edition ? [edition] : model.getWorkEditions(workKeys),
     model.getWorkRatings(workKeys, true),
+    model.getWorkSeries(workKeys),
   ])
 
-  return await Promise.all(
+  const bookInfoWorks = await Promise.all(
     works
       .filter((work) => work.title !== undefined)
       .map(async (work) => {
         const workEditions = editions.filter((edition) => edition.works?.includes(work.key))
         const workRatings = ratings.filter((rating) => rating.workKey === work.key)
 
-        return editions.length > 0 ? await convertWork(work, workEditions, workRatings) : null
+        // We already have the author's works, and the editions and series of this chunk, so no need to look them up
+        // again. Translations are only found between works in the same chunk though, as only their editions are loaded
+        const relatedWorks = edition ? null : rankRelatedWorks(work, candidates, editions, series)
+
+        return workEditions.length > 0 ? await convertWork(work, workEditions, workRatings, relatedWorks) : null
       }),
   ).then((results) => results.filter((work): work is BookInfoWork => work != null))
+
+  return { works: bookInfoWorks, series }
 }
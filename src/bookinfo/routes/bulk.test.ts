@@ -0,0 +1,22 @@
+import { beforeAll, expect, test } from 'bun:test'
+import { readarrId, request, seedDatabase } from '../../testing'
+import bulk from './bulk'
+
+beforeAll(() => seedDatabase())
+
+test("the number of queries doesn't grow with the number of editions", async () => {
+  // The first edition of each of the first ten Discworld novels
+  const editions = Array.from({ length: 10 }, (_, i) => readarrId(`/books/OL${1000 + i * 10}M`))
+
+  const one = await request(() => bulk(editions.slice(0, 1)))
+  const many = await request(() => bulk(editions))
+
+  expect(one.body.Works).toHaveLength(1)
+  expect(many.body.Works).toHaveLength(10)
+  // Each edition credits names, which are looked up to find the authors they refer to
+  expect(many.body.Works[0].Books[0].Contributors).toContainEqual({
+    ForeignId: Number(readarrId('/authors/OL26A')),
+    Role: 'illustrator',
+  })
+  expect(many.queries).toBe(one.queries)
+})
@@ -28,13 +28,16 @@ export default async function bulk(editionIds: string[]): Promise<Response> {
 
   const bookInfoWorks: BookInfoWork[] = (
     await Promise.all(
-      // We pass in the editions to use
+      // We pass in the editions to use, which were asked for by ID so are all returned
       works.flatMap((work) =>
         work
           ? [
               convertWork(
                 work,
                 editions.filter((edition) => edition.workKey === work.key),
+                null,
+                null,
+                false,
               ),
             ]
           : [],
@@ -78,6 +81,7 @@ export default async function bulk(editionIds: string[]): Promise<Response> {
 
   const series: BookInfoSeries[] = convertSeries(
     await model.getWorkSeries(bookInfoWorks.map((work) => ids.decodeReadarrId(work.ForeignId, 'work'))),
+    bookInfoWorks,
   )
 
   const response = JSON.stringify({
@@ -0,0 +1,75 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import type { BookSearch } from '../types'
+import { request, seedDatabase } from '../../testing'
+import search from './search'
+
+beforeAll(() => seedDatabase())
+
+const philosophersStone = "Harry Potter and the Philosopher's Stone"
+
+/**
+ * Queries against the seeded library, and the best result each should find
+ * Changing the ranking should keep these passing, so add to them rather than changing them
+ */
+const golden: { query: string; title?: string; author?: string; matchedName?: string; count?: number }[] = [
+  { query: 'harry potter', title: philosophersStone },
+  { query: 'harry potter by rowling', title: philosophersStone },
+  { query: 'pratchett', title: 'The Colour of Magic', author: 'Terry Pratchett' },
+  { query: 'title:"colour of magic" author:pratchett', title: 'The Colour of Magic' },
+  { query: 'harry potter publisher:bloomsbury', title: philosophersStone },
+  { query: 'harry potter year:2000-2010', count: 0 },
+  { query: 'title:magic -title:colour', count: 0 },
+  // Lookups
+  { query: 'OL82563W', title: philosophersStone },
+  { query: 'isbn:9780747532699', title: philosophersStone },
+  { query: '0747532699', title: philosophersStone },
+  // Pen names and other names
+  { query: 'robert galbraith', author: 'J. K. Rowling', matchedName: 'Robert Galbraith' },
+  { query: 'natsume soseki', author: '夏目漱石', matchedName: 'Natsume Sōseki' },
+  // Typos
+  { query: 'harry pottr', title: philosophersStone },
+  { query: 'rowlng', author: 'J. K. Rowling' },
+  // Accents, transliteration, and Chinese and Japanese
+  { query: 'bronte', title: 'Jane Eyre', author: 'Charlotte Brontë' },
+  { query: 'voyna i mir', title: 'Война и мир' },
+  { query: 'lev tolstoy', author: 'Лев Толстой' },
+  { query: '吾輩は猫', title: '吾輩は猫である' },
+]
+
+describe('golden queries', () => {
+  test.each(golden)('$query', async ({ query, title, author, matchedName, count }) => {
+    const results: BookSearch[] = (await request(() => search(query))).body
+
+    if (count !== undefined) {
+      expect(results).toHaveLength(count)
+      return
+    }
+
+    expect(results.length).toBeGreaterThan(0)
+    if (title) expect(results[0].title).toBe(title)
+    if (author) expect(results[0].author.name).toBe(author)
+    if (matchedName) expect(results[0].author.matchedName).toBe(matchedName)
+  })
+})
+
+test('pages join up to the same results as one large page', async () => {
+  const all = await request(() => search('pratchett', { page: { offset: 0, limit: 20 } }))
+  const first = await request(() => search('pratchett', { page: { offset: 0, limit: 7 } }))
+  const next = await request(() => search('pratchett', { cursor: first.headers.get('X-Next-Cursor') }))
+
+  expect(first.headers.get('X-Total-Count')).toBe('20')
+  expect([...first.body, ...next.body].map((result: BookSearch) => [result.workId, result.rank])).toEqual(
+    all.body.slice(0, 14).map((result: BookSearch) => [result.workId, result.rank]),
+  )
+})
+
+test("the number of queries doesn't grow with the number of results", async () => {
+  const page = { offset: 0, limit: 20 }
+
+  const one = await request(() => search('rowling', { page }))
+  const many = await request(() => search('pratchett', { page }))
+
+  expect(one.body).toHaveLength(1)
+  expect(many.body).toHaveLength(20)
+  expect(many.queries).toBe(one.queries)
+})
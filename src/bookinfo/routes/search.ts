@@ -1,148 +1,215 @@
-import type { Author, Edition, Work } from '../../types'
+import type { Author, Edition, Rating, Work } from '../../types'
 import type { BookSearch, BookSearchAuthor } from '../../bookinfo/types'
 import config from '../../config'
-import db from '../../database'
+import db, { query } from '../../database'
 import * as ids from '../../ids'
 import * as model from '../../model'
 import * as formatters from '../formatters'
+import { hasLanguagePreference, isPreferredLanguage, selectEditions } from '../editions'
+import { normaliseText, removeStopWords, splitCjk } from '../normalise'
+import { rank, scaleCount, sqlScore, trigramSimilarity } from '../ranking'
+import { type Lookup, type SearchQuery, type SearchTerm, parseQuery, termsToText } from '../query'
 import ISBN from 'isbn3'
-import { franc } from 'franc'
-import leven from 'leven'
+import { BadRequest } from 'fejl'
 import tsquery from 'pg-tsquery'
 
-export default async function search(query: string): Promise<Response> {
+/** An author found by name, and the name they were found by */
+interface AuthorMatch {
+  author: Author
+  alias: string
+}
+
+/** An author, work, and edition which together make a search result */
+interface Match {
+  author: Author
+  work: Work
+  edition: Edition
+  // Rating of the work itself
+  rating: Rating | null
+  // The name the author was found by
+  alias: string | null
+}
+
+export interface SearchOptions {
+  // Add an explanation of how each result was ranked
+  debug?: boolean
+  // Only return a page of the results, setting X-Total-Count and X-Next-Cursor
+  page?: { offset: number; limit: number } | null
+  // The X-Next-Cursor of a previous page, to get the next one
+  cursor?: string | null
+}
+
+/** Search for books, returning all the results unless a page is requested */
+export default async function search(query: string, options: SearchOptions = {}): Promise<Response> {
   const qid = getQid(query)
+  const parsed = parseQuery(query)
+  const page = options.cursor ? decodeCursor(options.cursor, qid) : (options.page ?? null)
 
   let results: BookSearch[] = []
-  let author: Author | null = null
-  let work: Work | null = null
-  let edition: Edition | null = null
-
-  if (query.startsWith('author:')) {
-    author = await model.getAuthor(query.substring(7))
-  } else if (query.startsWith('edition:')) {
-    edition = await model.getEdition(query.substring(8))
-  } else if (query.startsWith('isbn:')) {
-    edition = await searchByIsbn(query.substring(5))
-  } else if (/^\d{9}[\dXx]$|^\d{12}[\dXx]$/.test(query)) {
-    edition = await searchByIsbn(query)
-  } else if (query.startsWith('work:')) {
-    work = await model.getWork(query.substring(5))
-  }
 
-  if (author || work || edition) {
-    const result = await searchResult(author, work, edition, qid, 1)
-
-    if (result) {
-      results.push(result)
-    }
+  if (parsed.lookups.length) {
+    results = await Promise.all(parsed.lookups.map((lookup, i) => searchByLookup(lookup, qid, i + 1))).then((res) =>
+      res.filter((result): result is BookSearch => result !== null),
+    )
   } else {
-    results = (await searchByName(query)) ?? []
+    results = (await searchByName(parsed, query, options.debug ?? false, page !== null)) ?? []
   }
 
   let response: string
   results = results.filter((result): result is BookSearch => result != null)
-  response = JSON.stringify(results)
-
-  return new Response(response, {
-    headers: { 'Content-Type': 'application/json' },
-  })
-}
 
-/** Find books based on author name or title */
-async function searchByName(query: string): Promise<BookSearch[] | null> {
-  const qid: string = getQid(query)
-  let rank: number = 0
-  let searchResults: BookSearch[] = []
+  const headers: { [name: string]: string } = { 'Content-Type': 'application/json' }
 
-  const split = splitAuthorAndTitle(query)
+  // Results are ranked the same for every page, so the rank of each is its position in all of them
+  if (page) {
+    const limit = Math.min(page.limit, config.search.maxPageSize)
+    const end = page.offset + limit
 
-  // Fuzzy matching case insensitive
-  const authorsQuery = searchAuthorsByName(split ? split.author : query)
-  const worksQuery = searchWorksByTitle(query, split)
+    headers['X-Total-Count'] = String(results.length)
+    if (end < results.length) headers['X-Next-Cursor'] = encodeCursor(qid, end, limit)
 
-  // Run both queries in parallel
-  const [authors, works] = await Promise.all([authorsQuery, worksQuery])
-
-  // For authors we get up to maxTitles works
-  await Promise.all(
-    authors.map(async (author) => {
-      const authorWorks = await model.getAuthorWorks(author.key, config.search.maxTitles)
-
-      works.unshift(
-        ...authorWorks
-          .map((work) => ({ ...work, author: author }))
-          .filter((work) => !works.some((existing) => existing.key === work.key)),
-      )
-    }),
-  )
+    results = results.slice(page.offset, end)
+  }
 
-  await Promise.all(works.map(async (work) => searchResult(work.author ?? null, work, null, qid, ++rank))).then((res) =>
-    searchResults.push(...res.filter((result) => result !== null)),
-  )
+  response = JSON.stringify(results)
 
-  // Sort the results by how similar title and/or author are
-  searchResults.sort((a, b) => {
-    const aAuthorName = normalizeAuthorName(a.author.name)
-    const bAuthorName = normalizeAuthorName(b.author.name)
+  return new Response(response, { headers })
+}
 
-    // We should have both and so we use the total levenshtein distance
-    if (split?.author && split?.title) {
-      const aTotalDistance = leven(aAuthorName, split.author) + leven(a.title, split.title)
-      const bTotalDistance = leven(bAuthorName, split.author) + leven(b.title, split.title)
-      return aTotalDistance - bTotalDistance
-    }
+/** Find a book by an ID or ISBN */
+async function searchByLookup(lookup: Lookup, qid: string, rank: number): Promise<BookSearch | null> {
+  let match: Match | null = null
 
-    const queryAuthorName = normalizeAuthorName(query)
-    const aAuthorSimilarity = similarity(aAuthorName, queryAuthorName)
-    const bAuthorSimilarity = similarity(bAuthorName, queryAuthorName)
+  if (lookup.type === 'author') {
+    const author = await model.getAuthor(lookup.id)
+    match = author ? await resolveMatch(author, null, null) : null
+  } else if (lookup.type === 'work') {
+    const work = await model.getWork(lookup.id)
+    match = work ? await resolveMatch(null, work, null) : null
+  } else {
+    const edition = lookup.type === 'isbn' ? await searchByIsbn(lookup.id) : await model.getEdition(lookup.id)
+    match = edition ? await resolveMatch(null, null, edition) : null
+  }
 
-    // For same named authors, use existing rank
-    // This will prioritise author matches over title matches
-    if (bAuthorSimilarity === aAuthorSimilarity && aAuthorSimilarity > 0.8) {
-      return a.rank - b.rank
-    }
+  return match ? searchResult(match, qid, rank) : null
+}
 
-    // Prioritize author similarity >= 0.8
-    if (aAuthorSimilarity >= 0.8 && bAuthorSimilarity < 0.9) return -1
-    if (bAuthorSimilarity >= 0.8 && aAuthorSimilarity < 0.9) return 1
+/** Find books based on author name or title */
+async function searchByName(
+  parsed: SearchQuery,
+  query: string,
+  debug: boolean,
+  paged: boolean,
+): Promise<BookSearch[] | null> {
+  const qid: string = getQid(query)
+  // Paged searches find enough to browse through, rather than only the best few for Readarr
+  const maxTitles = paged ? config.search.maxResults : config.search.maxTitles
+
+  // Without fields, guess whether the text is a title and author e.g. "The Shining by Stephen King"
+  const fielded = parsed.title.length > 0 || parsed.author.length > 0
+  const plain = parsed.text.every((term) => !term.phrase && !term.negated)
+  const split = !fielded && plain ? splitAuthorAndTitle(termsToText(parsed.text)) : null
+
+  // Free text searches both titles and authors, unless a field says which it's for
+  const titleTerms = split
+    ? [{ text: split.title, phrase: false, negated: false }]
+    : [...parsed.title, ...(parsed.title.length && !parsed.author.length ? [] : parsed.text)]
+  const authorTerms = split
+    ? [{ text: split.author, phrase: false, negated: false }]
+    : [...parsed.author, ...(parsed.author.length ? [] : parsed.text)]
+
+  const title = termsToText(titleTerms)
+  const authorName = termsToText(authorTerms)
+  const hasTitleAndAuthor = split !== null || (parsed.title.length > 0 && parsed.author.length > 0)
+  const languagePreference = hasLanguagePreference()
+
+  const search = (trigram: boolean) =>
+    Promise.all([
+      authorName ? searchAuthorsByName(authorTerms, trigram) : Promise.resolve([]),
+      searchWorksByTitle(parsed, titleTerms, hasTitleAndAuthor ? authorName : null, maxTitles, trigram),
+    ])
 
-    // Otherwise use the title
-    const aTitleDistance = leven(a.title, query)
-    const bTitleDistance = leven(b.title, query)
+  // Run both queries in parallel
+  let [authors, titleMatches] = await search(false)
+
+  // A single typo means full text search finds nothing, so try again with similar words
+  if (authors.length + titleMatches.length < config.search.trigramFallback) {
+    const [similarAuthors, similarWorks] = await search(true)
+
+    authors = [
+      ...authors,
+      ...similarAuthors.filter((match) => !authors.some((existing) => existing.author.key === match.author.key)),
+    ]
+    titleMatches = [
+      ...titleMatches,
+      ...similarWorks.filter((work) => !titleMatches.some((existing) => existing.key === work.key)),
+    ]
+  }
 
-    return aTitleDistance - bTitleDistance
-  })
+  // Filters only apply to the title search, so an author's other works would ignore them
+  const filtered =
+    parsed.title.length > 0 ||
+    parsed.publisher.length > 0 ||
+    parsed.series.length > 0 ||
+    parsed.years !== null ||
+    parsed.languages.length > 0
+
+  // For authors we get up to maxTitles works, in the order the authors were ranked so pages are stable
+  const authorWorks = await Promise.all(
+    (filtered ? [] : authors).map(async ({ author, alias }) =>
+      (await model.getAuthorWorks(author.key, maxTitles)).map((work) => ({ ...work, author, alias })),
+    ),
+  )
 
-  // Update results with the new ranking
-  searchResults.forEach((result, index) => {
-    result.rank = index + 1
-  })
+  const keys = new Set(titleMatches.map((work) => work.key))
+  const works: (Work & { alias?: string })[] = [
+    ...authorWorks.flat().filter((work) => {
+      if (keys.has(work.key)) return false
+      keys.add(work.key)
+      return true
+    }),
+    ...titleMatches,
+  ]
 
-  return searchResults
+  const matches = await Promise.all(
+    works.map(async (work) => {
+      const match = await resolveMatch(work.author ?? null, work, null, work.alias ?? null)
+      return match && { match, editions: await model.getWorkEditionCount(work.key) }
+    }),
+  ).then((res) => res.filter((candidate) => candidate !== null))
+
+  const ranked = rank(matches, ({ match, editions }) => ({
+    ...(title ? { title: trigramSimilarity(match.edition.title ?? match.work.title, title) } : {}),
+    // Compare against the name which was searched for, rather than the one the author is best known by
+    ...(authorName ? { author: trigramSimilarity(match.alias ?? match.author.name, authorName) } : {}),
+    editions: scaleCount('editions', editions),
+    revision: scaleCount('revision', match.work.revision),
+    ratings: scaleCount('ratings', match.rating?.count ?? 0),
+    ...(languagePreference ? { language: isPreferredLanguage(match.edition) ? 1 : 0 } : {}),
+  }))
+
+  return ranked.slice(0, paged ? config.search.maxResults : undefined).map(({ item, explanation }, i) => ({
+    ...searchResult(item.match, qid, i + 1),
+    ...(debug ? { explanation } : {}),
+  }))
 }
 
-/** Finds authors by name */
-async function searchAuthorsByName(query: string): Promise<Author[]> {
-  const useTrigram = isTrigramQuery(query)
-  const pattern = useTrigram ? query : generateNameSearchPattern(query)
-
-  // Sort criteria are: revision count, name similarity, and number of works
-  const weights = {
-    similarityWeight: 0.7,
-    revisionWeight: 0.05,
-    worksWeight: 0.25,
-  }
+/** Finds authors by any of their names, including which one matched */
+async function searchAuthorsByName(terms: SearchTerm[], trigram: boolean = false): Promise<AuthorMatch[]> {
+  const { param, params } = sqlParams()
+  const text = param(termsToText(terms))
 
   const sql = `
-    WITH filtered_authors AS (
-      SELECT *
-      FROM authors
-      ${
-        useTrigram
-          ? `WHERE authors.data->>'name' ILIKE $1`
-          : `WHERE to_tsvector('simple', authors.data->>'name') @@ to_tsquery('simple', $1)`
-      }
+    WITH matched_aliases AS (
+      SELECT DISTINCT ON (author_key) author_key, alias
+      FROM author_aliases
+      WHERE ${matchCondition('alias', terms, generateNameSearchPattern, trigram, param)}
+      ORDER BY author_key, similarity(alias, ${text}) DESC, alias
+    ),
+    filtered_authors AS (
+      SELECT authors.*, matched_aliases.alias
+      FROM matched_aliases
+      JOIN authors ON authors.key = matched_aliases.author_key
     ),
     candidate_matches AS (
       SELECT filtered_authors.key,
@@ -155,47 +222,105 @@ async function searchAuthorsByName(query: string): Promise<Author[]> {
     SELECT filtered_authors.*,
       candidate_matches.work_count,
       filtered_authors.revision,
-      (
-        COALESCE(similarity(filtered_authors.data->>'name', $2), 0) * ${weights.similarityWeight} +
-        candidate_matches.work_count * ${weights.worksWeight} +
-        filtered_authors.revision * ${weights.revisionWeight}
-      ) AS weighted_score
+      ${sqlScore({
+        author: `similarity(filtered_authors.alias, ${text})`,
+        works: 'candidate_matches.work_count',
+        revision: 'filtered_authors.revision',
+      })} AS weighted_score
     FROM candidate_matches
     JOIN filtered_authors ON candidate_matches.key = filtered_authors.key
-    ORDER BY weighted_score DESC
-    LIMIT $3
+    ORDER BY weighted_score DESC, filtered_authors.key
+    LIMIT ${param(config.search.maxAuthors)}
   `
 
-  const bindParams = [pattern, query, config.search.maxAuthors]
+  const rows = await query(db, sql, params).then((res) => res.rows)
+  const authors = await Promise.all(rows.map((row) => model.processModel(row) as Promise<Author | null>))
 
-  return db
-    .query(sql, bindParams)
-    .then((res) => Promise.all(res.rows.map((author) => model.processModel(author) as unknown as Author)))
-    .then((res) => res.filter((author): author is Author => author != null))
+  return authors
+    .map((author, i) => (author ? { author, alias: rows[i].alias as string } : null))
+    .filter((match): match is AuthorMatch => match !== null)
 }
 
-async function searchWorksByTitle(query: string, split: { title: string; author: string } | null): Promise<Work[]> {
-  const title = split && split.title ? split.title : query
-  const useTrigram = isTrigramQuery(query)
-  const pattern = useTrigram ? title : generateTitleSearchPattern(title)
-
-  // Sort criteria are: revision count, name similarity, and number of works
-  const weights = {
-    similarityWeight: 0.8,
-    revisionWeight: 0.1,
-    editionsWeight: 0.1,
-    authorSimilarityWeight: 0.5,
+/** Finds works by title, filtered by the other fields of the query, and ranked by author too if there is one */
+async function searchWorksByTitle(
+  parsed: SearchQuery,
+  terms: SearchTerm[],
+  authorName: string | null,
+  limit: number,
+  trigram: boolean = false,
+): Promise<Work[]> {
+  const title = termsToText(terms)
+  const { param, params } = sqlParams()
+  const conditions: string[] = []
+
+  if (title) {
+    conditions.push(matchCondition("works.data->>'title'", terms, generateTitleSearchPattern, trigram, param))
+  }
+
+  // Searching by author alone is done by searchAuthorsByName
+  if (!title && !parsed.author.some((term) => !term.negated)) {
+    return []
+  }
+
+  parsed.author.forEach((term) => {
+    // Typos are only allowed for authors to include, as similar names would be excluded too
+    const match = matchCondition(
+      'author_aliases.alias',
+      [{ ...term, negated: false }],
+      generateNameSearchPattern,
+      trigram && !term.negated,
+      param,
+    )
+    conditions.push(`${term.negated ? 'NOT ' : ''}EXISTS (
+      SELECT 1
+      FROM author_works
+      JOIN author_aliases ON author_aliases.author_key = author_works.author_key
+      WHERE author_works.work_key = works.key
+        AND ${match}
+    )`)
+  })
+
+  parsed.publisher.forEach((term) => {
+    conditions.push(`${term.negated ? 'NOT ' : ''}EXISTS (
+      SELECT 1
+      FROM editions, jsonb_array_elements_text(editions.data->'publishers') AS publisher
+      WHERE editions.work_key = works.key
+        AND jsonb_typeof(editions.data->'publishers') = 'array'
+        AND publisher ILIKE ${param(`%${escapeLike(term.text)}%`)}
+    )`)
+  })
+
+  parsed.series.forEach((term) => {
+    conditions.push(`${term.negated ? 'NOT ' : ''}EXISTS (
+      SELECT 1
+      FROM goodreads_works
+      JOIN goodreads_series ON goodreads_series.work_id = goodreads_works.work_id
+      WHERE goodreads_works.work_ol = works.key
+        AND goodreads_series.title ILIKE ${param(`%${escapeLike(term.text)}%`)}
+    )`)
+  })
+
+  if (parsed.years) {
+    conditions.push(
+      `substring(works.data->>'first_publish_date' from '\\d{4}')::integer BETWEEN ${param(parsed.years.from)} AND ${param(parsed.years.to)}`,
+    )
+  }
+
+  if (parsed.languages.length) {
+    const languages = parsed.languages.map((code) => JSON.stringify([{ key: `/languages/${code}` }]))
+    conditions.push(`EXISTS (
+      SELECT 1
+      FROM editions
+      WHERE editions.work_key = works.key
+        AND editions.data->'languages' @> ANY(${param(languages)}::jsonb[])
+    )`)
   }
 
   const sql = `
     WITH filtered_works AS (
       SELECT *
       FROM works
-      ${
-        useTrigram
-          ? `WHERE works.data->>'title' ILIKE $1`
-          : `WHERE to_tsvector('simple', works.data->>'title') @@ to_tsquery('simple', $1)`
-      }
+      WHERE ${conditions.join('\n        AND ')}
     ),
     candidate_matches AS (
       SELECT filtered_works.key,
@@ -208,46 +333,35 @@ async function searchWorksByTitle(query: string, split: { title: string; author:
     SELECT works.*,
       candidate_matches.edition_count,
       works.revision,
-      (
-        COALESCE(similarity(works.data->>'title', $2), 0) * ${weights.similarityWeight} +
-        candidate_matches.edition_count * ${weights.editionsWeight} +
-        works.revision * ${weights.revisionWeight}
-        ${
-          split
-            ? `
-          + COALESCE(similarity(authors.data->>'name', $4), 0) * ${weights.authorSimilarityWeight}
-        `
-            : ''
-        }
-      ) AS weighted_score
+      ${sqlScore({
+        title: `similarity(works.data->>'title', ${param(title)})`,
+        editions: 'candidate_matches.edition_count',
+        revision: 'works.revision',
+        ...(authorName ? { author: `similarity(authors.data->>'name', ${param(authorName)})` } : {}),
+      })} AS weighted_score
     FROM candidate_matches
     JOIN works ON candidate_matches.key = works.key
     ${
-      split
+      authorName
         ? `
       LEFT JOIN author_works ON author_works.work_key = works.key
       LEFT JOIN authors ON authors.key = author_works.author_key
     `
         : ''
     }
-    ORDER BY weighted_score DESC
-    LIMIT $3
+    ORDER BY weighted_score DESC, works.key
+    LIMIT ${param(limit)}
   `
 
-  const bindParams = split
-    ? [pattern, split.title, config.search.maxTitles, split.author]
-    : [pattern, query, config.search.maxTitles]
-
-  return db
-    .query(sql, bindParams)
+  return query(db, sql, params)
     .then((res) => Promise.all(res.rows.map((work) => model.processModel(work) as unknown as Work)))
     .then((res) => res.filter((work): work is Work => work != null))
 }
 
 /** Find an edition based on ISBN (tries ISBN and ISBN-13) */
-async function searchByIsbn(query: string): Promise<Edition | null> {
+async function searchByIsbn(text: string): Promise<Edition | null> {
   const isbns: string[] = []
-  const isbn = ISBN.parse(query)
+  const isbn = ISBN.parse(text)
 
   if (isbn) {
     // We also convert between ISBN-10 and 13 ISBN-13 where possible
@@ -275,7 +389,7 @@ async function searchByIsbn(query: string): Promise<Edition | null> {
     LIMIT 1
   `
 
-  const editionKey = await db.query(isbnQuery, [isbns]).then((res) => res.rows[0]?.edition_key as string | null)
+  const editionKey = await query(db, isbnQuery, [isbns]).then((res) => res.rows[0]?.edition_key as string | null)
 
   if (!editionKey) {
     return null
@@ -284,14 +398,13 @@ async function searchByIsbn(query: string): Promise<Edition | null> {
   return await model.getEdition(editionKey)
 }
 
-/** Formats a search result */
-async function searchResult(
+/** Find the rest of a search result from any of its author, work, or edition */
+async function resolveMatch(
   author: Author | null,
   work: Work | null,
   edition: Edition | null,
-  qid: string,
-  rank: number,
-): Promise<BookSearch | null> {
+  alias: string | null = null,
+): Promise<Match | null> {
   // If we having one of the three, we should be able to get the other two using it
   if (!work) {
     if (edition) {
@@ -301,7 +414,10 @@ async function searchResult(
     }
   }
   if (!edition && work) {
-    edition = await model.getWorkEdition(work.key)
+    // Choosing an edition in a preferred language needs all of them, otherwise the latest will do
+    edition = hasLanguagePreference()
+      ? (selectEditions(await model.getWorkEditions([work.key]))[0] ?? null)
+      : await model.getWorkEdition(work.key)
   }
   if (!author && (work || edition)) {
     const authorId = work?.authors?.[0] || edition?.authors?.[0]
@@ -315,6 +431,14 @@ async function searchResult(
   // Get ratings for the work itself (so not for the editions)
   const rating = (await model.getWorkRatings([work.key], true))[0] ?? null
 
+  return { author, work, edition, rating, alias }
+}
+
+/** Formats a search result */
+function searchResult({ author, work, edition, rating, alias }: Match, qid: string, rank: number): BookSearch {
+  // Covers of an edition in a preferred language will usually have a translated title
+  const cover = (isPreferredLanguage(edition) && edition.covers?.[0]) || work.covers?.[0]
+
   return {
     qid: qid,
     bookId: edition ? ids.encodeReadarrId(edition.key).toString() : '',
@@ -334,11 +458,13 @@ async function searchResult(
     numPages: edition?.numberOfPages ?? 0,
     avgRating: String(rating?.average ?? 0),
     ratingsCount: rating?.count ?? 0,
-    imageUrl: (work?.covers?.[0] && formatters.formatCover(work.covers[0], 'book')) ?? '',
+    imageUrl: (cover && formatters.formatCover(cover, 'book')) ?? '',
 
     author: {
       id: author ? ids.encodeReadarrId(author.key) : 0,
       name: author ? author.name : '',
+      // Only set when found by another name e.g. a pen name
+      ...(alias && alias !== author?.name ? { matchedName: alias } : {}),
       // This doesn't seem to be used by Readarr, but set to false to be safe
       isGoodreadsAuthor: false,
       profileUrl: author ? formatters.formatUrl(author.key) : '',
@@ -362,6 +488,7 @@ function generateNameSearchPattern(query: string): string {
     .flatMap((word) => word.split('-'))
     // Remove any non-alphanumeric characters (unicode aware)
     .map((word) => word.replace(/[^\p{L}\p{N}]+/gu, ''))
+    .flatMap(splitCjk)
 
   if (words.length === 0) return ''
 
@@ -379,43 +506,125 @@ function generateNameSearchPattern(query: string): string {
 
 // Convert book title into a search pattern
 function generateTitleSearchPattern(query: string): string {
-  const lang = franc(query, { minLength: 3 })
-  const stopWords = ['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for']
-
   // Split the query into words and normalize each word
-  const words = query
-    .trim()
-    .toLowerCase()
-    .split(/\s+/)
-    .filter((p) => p.length > 0)
-    // Filter out common stopwords for English queries
-    .filter((p) => lang !== 'eng' || !stopWords.includes(p))
+  const words = removeStopWords(
+    query
+      .trim()
+      .toLowerCase()
+      .split(/\s+/)
+      .filter((p) => p.length > 0),
+    query,
+  )
     // Replace hyphens with spaces
     .flatMap((word) => word.split('-'))
     // Remove any non-alphanumeric characters (unicode aware)
     .map((word) => word.replace(/[^\p{L}\p{N}]+/gu, ''))
+    .flatMap(splitCjk)
 
   return words.length > 0 ? (new tsquery.Tsquery().parse(words.join(' '))?.toString() ?? '') : ''
 }
 
-// Simple short hash from the query
-// From https://gist.github.com/hyamamoto/fd435505d29ebfa3d9716fd2be8d42f0
-function getQid(query: string): string {
-  const hash = [...query].reduce((hash, c) => (Math.imul(31, hash) + c.charCodeAt(0)) | 0, 0)
-  return Math.abs(hash).toString(36)
+/**
+ * Combine terms into a tsquery, where plain words use the given pattern as before
+ * Phrases must match in order, and negated terms mustn't match at all
+ */
+function termsToTsquery(terms: SearchTerm[], generatePattern: (query: string) => string): string {
+  const plain = terms.filter((term) => !term.phrase && !term.negated)
+  const parts = [plain.length ? generatePattern(termsToText(plain)) : '']
+
+  terms
+    .filter((term) => term.phrase || term.negated)
+    .forEach((term) => {
+      const words = term.text
+        .toLowerCase()
+        .split(/[\s-]+/)
+        .map((word) => word.replace(/[^\p{L}\p{N}]+/gu, ''))
+        .flatMap(splitCjk)
+
+      if (words.length) {
+        const group = `(${words.join(term.phrase ? ' <-> ' : ' & ')})`
+        parts.push(term.negated ? `!${group}` : group)
+      }
+    })
+
+  return parts.filter((part) => part.length > 0).join(' & ')
 }
 
-function normalizeAuthorName(authorName: string | null): string {
-  return authorName ? authorName.toLowerCase().replace(/[^\w\s]/g, '') : ''
+/**
+ * SQL condition for a column matching the terms, using full text search or trigram similarity which allows for typos
+ * Full text search ignores accents and transliterates both sides, see the search_normalisation migration
+ * Negated terms always use full text search, as excluding similar words would exclude far too much
+ */
+function matchCondition(
+  column: string,
+  terms: SearchTerm[],
+  generatePattern: (query: string) => string,
+  trigram: boolean,
+  param: (value: unknown) => string,
+): string {
+  if (!trigram) {
+    return `to_tsvector('search', search_text(${column})) @@ to_tsquery('search', transliterate(${param(termsToTsquery(terms, generatePattern))}))`
+  }
+
+  // word_similarity (<%) also matches part of a longer name or title e.g. "Sandersen" in "Brandon Sanderson"
+  const text = param(termsToText(terms))
+  // The column needs brackets, as % binds more tightly than ->>
+  const conditions = [`((${column}) % ${text} OR ${text} <% (${column}))`]
+
+  const negated = terms.filter((term) => term.negated)
+  if (negated.length) {
+    conditions.push(
+      `to_tsvector('search', search_text(${column})) @@ to_tsquery('search', transliterate(${param(termsToTsquery(negated, generatePattern))}))`,
+    )
+  }
+
+  return conditions.join(' AND ')
 }
 
-// Similarity score between 0 and 1
-function similarity(str1: string, str2: string): number {
-  const maxLength = Math.max(str1.length, str2.length)
-  const distance = leven(str1, str2)
+/** Collects query parameters, returning the placeholder for each */
+function sqlParams(): { param: (value: unknown) => string; params: unknown[] } {
+  const params: unknown[] = []
+  const param = (value: unknown) => {
+    params.push(value)
+    return `$${params.length}`
+  }
 
-  return 1 - distance / maxLength
-  1
+  return { param, params }
+}
+
+/** An opaque cursor for the next page of results, which is only valid for the same query */
+function encodeCursor(qid: string, offset: number, limit: number): string {
+  return Buffer.from(JSON.stringify({ qid, offset, limit })).toString('base64url')
+}
+
+function decodeCursor(cursor: string, qid: string): { offset: number; limit: number } {
+  let page: { qid?: unknown; offset?: unknown; limit?: unknown }
+
+  try {
+    page = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+  } catch {
+    throw new BadRequest('Cursor (`cursor`) is invalid')
+  }
+
+  BadRequest.assert(page.qid === qid, 'Cursor (`cursor`) is for a different query')
+  BadRequest.assert(
+    Number.isInteger(page.offset) && Number.isInteger(page.limit) && Number(page.offset) >= 0 && Number(page.limit) > 0,
+    'Cursor (`cursor`) is invalid',
+  )
+
+  return { offset: Number(page.offset), limit: Number(page.limit) }
+}
+
+/** Escape wildcards so user input is matched literally by LIKE */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`)
+}
+
+// Simple short hash from the query, normalised like the cache key so cached cursors match the query
+// From https://gist.github.com/hyamamoto/fd435505d29ebfa3d9716fd2be8d42f0
+function getQid(query: string): string {
+  const hash = [...normaliseText(query)].reduce((hash, c) => (Math.imul(31, hash) + c.charCodeAt(0)) | 0, 0)
+  return Math.abs(hash).toString(36)
 }
 
 // Attempts to extract author and title fro ma string
@@ -443,8 +652,3 @@ function splitAuthorAndTitle(query: string): { title: string; author: string } |
 
   return null
 }
-
-// Determine which query type to use
-function isTrigramQuery(query: string): boolean {
-  return false
-}
@@ -0,0 +1,35 @@
+import { beforeAll, expect, test } from 'bun:test'
+import { readarrId, request, seedDatabase } from '../../testing'
+import series from './series'
+import { BadRequest } from 'fejl'
+
+beforeAll(() => seedDatabase())
+
+test('finds a series by its Goodreads ID', async () => {
+  const response = await request(() => series('40650'))
+
+  expect(response.status).toBe(200)
+  expect(response.body.Title).toBe('Discworld')
+  expect(response.body.Works.map((work: { Title: string }) => work.Title).sort()).toEqual([
+    'Sourcery',
+    'The Colour of Magic',
+  ])
+})
+
+test('finds a series by its OL style ID', async () => {
+  const goodreads = await request(() => series('40650'))
+
+  expect((await request(() => series('OL40650S'))).body).toEqual(goodreads.body)
+  expect((await request(() => series(readarrId('/series/OL40650S')))).body).toEqual(goodreads.body)
+})
+
+test('is not found for an unknown series', async () => {
+  expect((await request(() => series('99999'))).status).toBe(404)
+  expect((await request(() => series('OL99999S'))).status).toBe(404)
+})
+
+test('rejects malformed IDs', async () => {
+  for (const id of ['discworld', 'OL40650W', 'OLabcS', '-1']) {
+    await expect(series(id)).rejects.toBeInstanceOf(BadRequest)
+  }
+})
@@ -0,0 +1,78 @@
+import type { Work } from '../../types'
+import type { BookInfoAuthor, BookInfoWork } from '../types'
+import { convertAuthor, convertSeries, convertWork } from '../convert'
+import * as ids from '../../ids'
+import * as model from '../../model'
+import { BadRequest } from 'fejl'
+
+// Goodreads series IDs, Readarr IDs, or OL style IDs e.g. OL123S or /series/OL123S
+const seriesIdFormat = /^\d+$|^(?:\/series\/)?OL\d+S$/i
+
+export default async function series(id: string): Promise<Response> {
+  const seriesId = getSeriesId(id)
+
+  try {
+    const members = await model.getSeries(seriesId)
+    const bookInfoSeries = convertSeries(members)[0]
+
+    if (!bookInfoSeries) {
+      return new Response(null, { status: 404 })
+    }
+
+    const works: Work[] = await Promise.all(
+      members.map((member) => model.getWork(ids.decodeReadarrId(member.workId, 'work'))),
+    ).then((results) => results.filter((work): work is Work => work !== null && work.title !== undefined))
+
+    const workKeys = works.map((work) => work.key)
+
+    const [editions, ratings, authors] = await Promise.all([
+      model.getWorkEditions(workKeys),
+      model.getWorkRatings(workKeys, true),
+      model.getAuthors(Array.from(new Set(works.flatMap((work) => work.authors ?? [])))),
+    ])
+
+    const bookInfoAuthors: BookInfoAuthor[] = await Promise.all(authors.map((author) => convertAuthor(author)))
+
+    bookInfoSeries.Works = await Promise.all(
+      works.map(async (work) => {
+        const bookInfoWork = await convertWork(
+          work,
+          editions.filter((edition) => edition.workKey === work.key),
+          ratings.filter((rating) => rating.workKey === work.key),
+        )
+
+        if (bookInfoWork) {
+          bookInfoWork.Authors = bookInfoAuthors.filter((author) =>
+            work.authors?.some((authorKey) => ids.encodeReadarrId(authorKey) === author.ForeignId),
+          )
+        }
+
+        return bookInfoWork
+      }),
+    ).then((results) => results.filter((work): work is BookInfoWork => work !== null))
+
+    bookInfoSeries.Authors = bookInfoAuthors
+
+    return new Response(JSON.stringify(bookInfoSeries), {
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (error) {
+    const err = error as Error
+    throw new Error(`Error processing series: ${err.message}`)
+  }
+}
+
+/** Series can either be a Goodreads series ID or an OL style ID wrapping it e.g. OL123S */
+function getSeriesId(id: string): number {
+  if (!seriesIdFormat.test(id) || !ids.isInRange(id)) {
+    throw new BadRequest('Series ID must be a Goodreads series ID, or an Open Library style one e.g. OL123S')
+  }
+
+  if (ids.isGoodreadsId(id)) {
+    return parseInt(id, 10)
+  }
+
+  // Readarr IDs are decoded to the OL style ID first
+  const key = /^\d+$/.test(id) ? ids.decodeReadarrId(Number(id), 'series') : id
+  return parseInt(key.match(/OL(\d+)S$/i)![1], 10)
+}
@@ -0,0 +1,15 @@
+import { beforeAll, expect, test } from 'bun:test'
+import { readarrId, request, seedDatabase } from '../../testing'
+import work from './work'
+
+beforeAll(() => seedDatabase())
+
+test("the number of queries doesn't grow with the number of editions", async () => {
+  // Both are in a series and have an author, so only differ by how many editions they have
+  const one = await request(() => work(readarrId('/works/OL104W')))
+  const many = await request(() => work(readarrId('/works/OL100W')))
+
+  expect(one.status).toBe(200)
+  expect(many.status).toBe(200)
+  expect(many.queries).toBe(one.queries)
+})
@@ -10,11 +10,13 @@ export default async function work(id: string): Promise<Response> {
       return new Response(null, { status: 404 })
     }
 
-    // Distinct author IDs
+    // Distinct author IDs, ignoring translators etc.
     const authorIds: string[] = [
       ...new Set(
         work.Books?.flatMap((book) =>
-          book.Contributors.map((contributor) => ids.decodeReadarrId(contributor.ForeignId, 'author')),
+          book.Contributors.filter((contributor) => contributor.Role === 'author').map((contributor) =>
+            ids.decodeReadarrId(contributor.ForeignId, 'author'),
+          ),
         ) || [],
       ),
     ]
@@ -48,7 +50,7 @@ export default async function work(id: string): Promise<Response> {
       ),
     )
 
-    work.Series = convertSeries(await model.getWorkSeries([ids.decodeReadarrId(work.ForeignId, 'work')]))
+    work.Series = convertSeries(await model.getWorkSeries([ids.decodeReadarrId(work.ForeignId, 'work')]), [work])
 
     return new Response(JSON.stringify(work), {
       headers: { 'Content-Type': 'application/json' },
@@ -1,3 +1,5 @@
+import type { Explanation } from './ranking'
+
 export interface BookInfoAuthor {
   ForeignId: number
   Name: string
@@ -39,10 +41,13 @@ export interface BookInfoSeries {
   Title: string
   Description: string
   LinkItems: BookInfoSeriesLinkItem[]
+  // Only set by the series endpoint
+  Works?: BookInfoWork[]
+  Authors?: BookInfoAuthor[]
 }
 
 export interface BookInfoSeriesLinkItem {
-  // TODO: Goodreads flags series as being primary or secondary, but OL has no equivalent
+  // Whether the work is a main entry of a numbered series, rather than a novella, omnibus, or shared universe
   Primary: boolean
   // Starting at 1
   PositionInSeries: string
@@ -92,11 +97,15 @@ export interface BookSearch {
   from_srp: true
   // Index of result in the search results
   rank: number
+  // How the rank was reached, only included with debug=1
+  explanation?: Explanation
 }
 
 export interface BookSearchAuthor {
   id: number
   name: string
+  // The alias the author was found by, if not their name
+  matchedName?: string
   isGoodreadsAuthor: boolean
   profileUrl: string
   worksListUrl: string
@@ -24,6 +24,8 @@ const config = {
   hostname: getString('HOSTNAME', '0.0.0.0'),
   port: getNumber('PORT', 8080),
   workers: getNumber('WORKERS', 10),
+  // Minimum level to log: debug, info, warn, or error
+  logLevel: getString('LOG_LEVEL', 'info'),
   postgres: {
     connectionString: getString('POSTGRES_CONNECTION_STRING', ''),
     // Maximum number of connections in the pool
@@ -33,13 +35,30 @@ const config = {
     // Timeout for establishing a new connection
     connectionTimeout: getNumber('POSTGRES_CONNECTION_TIMEOUT', 20),
   },
+  // Admin API
+  admin: {
+    // Bearer token required to use the admin API, which is disabled if not set
+    token: getString('ADMIN_TOKEN', ''),
+  },
   // 3 character language code
   defaultLanguage: getString('DEFAULT_LANGUAGE', '') ?? null,
+  // Author endpoint
+  author: {
+    // How many works to convert at a time while streaming a response, fewer uses less memory
+    chunkSize: getNumber('AUTHOR_CHUNK_SIZE', 100),
+    // Maximum number of works per page when paginating
+    maxPageSize: getNumber('AUTHOR_MAX_PAGE_SIZE', 1000),
+  },
   // Bulk endpoint
   bulk: {
     // Maximum number of edition IDs to process
     limit: getNumber('BULK_LIMIT', 50),
   },
+  // Precomputed responses for large authors
+  cache: {
+    // Seconds before a cached response expires and is rendered again, 0 to never expire
+    ttl: getNumber('CACHE_TTL', 7 * 24 * 60 * 60),
+  },
   // Changed endpoint
   changed: {
     // Maximum number of IDs to return
@@ -47,12 +66,98 @@ const config = {
     // Maximum number of months to look back
     maxMonths: getNumber('CHANGED_MAX_MONTHS', 6),
   },
+  // Which editions of a work to return, these can be overridden per request (see bookinfo/editions.ts)
+  editions: {
+    // Only keep the best of editions sharing an ISBN, or the same title, publisher, format, and language
+    dedupe: getBoolean('EDITIONS_DEDUPE', true),
+    // Drop editions without a language, unless that would leave none
+    requireLanguage: getBoolean('EDITIONS_REQUIRE_LANGUAGE', true),
+    // Maximum editions per language, 0 for no limit
+    perLanguage: getNumber('EDITIONS_PER_LANGUAGE', 50),
+    // Maximum editions per work, 0 for no limit
+    limit: getNumber('EDITIONS_LIMIT', 0),
+    // Comma separated languages to show editions in first e.g. "fre,eng", usually set per request instead
+    languages: getString('EDITIONS_LANGUAGES', '')
+      .split(',')
+      .map((language) => language.trim())
+      .filter((language) => language.length > 0),
+    // Only return editions in the preferred languages
+    strictLanguage: getBoolean('EDITIONS_STRICT_LANGUAGE', false),
+    // How much each sign of a good quality edition counts towards ranking the best first, see bookinfo/editions.ts
+    weights: {
+      cover: getNumber('EDITIONS_WEIGHT_COVER', 3),
+      isbn: getNumber('EDITIONS_WEIGHT_ISBN', 3),
+      pages: getNumber('EDITIONS_WEIGHT_PAGES', 1),
+      publisher: getNumber('EDITIONS_WEIGHT_PUBLISHER', 0.5),
+      // Multiplied by the number of digits in the rating count, so popular editions rank higher without dominating
+      ratings: getNumber('EDITIONS_WEIGHT_RATINGS', 1),
+    },
+  },
+  // Data dump import
+  import: {
+    // How many records to save concurrently
+    batchSize: getNumber('IMPORT_BATCH_SIZE', 100),
+    // How many lines between saving progress
+    progressInterval: getNumber('IMPORT_PROGRESS_INTERVAL', 10000),
+  },
+  // Locks stopping tasks such as update from running concurrently
+  locks: {
+    // Seconds between a running task refreshing its lock
+    heartbeat: getNumber('LOCK_HEARTBEAT', 30),
+    // Seconds without a heartbeat before a lock is considered stale and taken over
+    staleAfter: getNumber('LOCK_STALE_AFTER', 600),
+  },
+  // Prometheus metrics
+  metrics: {
+    // Seconds between workers sending their metrics to the primary process
+    interval: getNumber('METRICS_INTERVAL', 5),
+  },
+  // Related works
+  related: {
+    // Maximum number of related works per work
+    limit: getNumber('RELATED_LIMIT', 10),
+    // How many of the author's works to compare against when they aren't already loaded
+    candidates: getNumber('RELATED_CANDIDATES', 100),
+  },
+  // Cache of author, work, bulk, series, and search responses
+  responses: {
+    // Megabytes of responses to keep in memory in each worker, 0 to disable
+    size: getNumber('RESPONSES_SIZE', 64),
+    // Megabytes a single response can be and still be cached, larger ones are only streamed
+    maxEntrySize: getNumber('RESPONSES_MAX_ENTRY_SIZE', 8),
+    // Seconds a response is cached for
+    ttl: getNumber('RESPONSES_TTL', 300),
+    // Also cache in Postgres so responses are shared between workers and servers
+    shared: getBoolean('RESPONSES_SHARED', false),
+    // Seconds clients can reuse a response for without checking, sent as Cache-Control
+    maxAge: getNumber('RESPONSES_MAX_AGE', 60),
+  },
   // Search endpoint
   search: {
     // Max authors to return via author part of the search
     maxAuthors: getNumber('MAX_AUTHORS', 1),
     // Max books to return via title part of the search
     maxTitles: getNumber('MAX_TITLES', 3),
+    // Most results which can be paged through, paged searches find up to this many works for the title and each author
+    maxResults: getNumber('SEARCH_MAX_RESULTS', 100),
+    // Maximum number of results per page when paginating
+    maxPageSize: getNumber('SEARCH_MAX_PAGE_SIZE', 20),
+    // Search again allowing for typos when fewer than this many authors and works are found, 0 to never
+    trigramFallback: getNumber('SEARCH_TRIGRAM_FALLBACK', 1),
+    // How much each feature counts towards the ranking of results, see bookinfo/ranking.ts
+    weights: {
+      // Similarity of the title and author to the query
+      title: getNumber('SEARCH_WEIGHT_TITLE', 3),
+      author: getNumber('SEARCH_WEIGHT_AUTHOR', 2),
+      // Popularity of the work
+      editions: getNumber('SEARCH_WEIGHT_EDITIONS', 1),
+      revision: getNumber('SEARCH_WEIGHT_REVISION', 0.25),
+      ratings: getNumber('SEARCH_WEIGHT_RATINGS', 1),
+      // Whether the edition is in a preferred language
+      language: getNumber('SEARCH_WEIGHT_LANGUAGE', 1),
+      // Number of works an author has, when choosing which authors to include the works of
+      works: getNumber('SEARCH_WEIGHT_WORKS', 1),
+    },
   },
   // Update process
   update: {
@@ -60,10 +165,20 @@ const config = {
     batchSize: getNumber('UPDATE_BATCH_SIZE', 10),
     // Cron schedule for updating from OL
     cron: getString('UPDATE_CRON', '30 * * * *'),
-    // How many times to retry each page before giving up
-    retries: getNumber('UPDATE_RETRIES', 1),
-    // Seconds to wait on a request before timing out
-    timeout: getNumber('UPDATE_TIMEOUT', 30),
+  },
+  // Where the update task fetches changes from, can be pointed at the mock server (see src/mock/server.ts)
+  upstream: {
+    url: getString('UPSTREAM_URL', 'https://openlibrary.org'),
+    // OL asks that clients identify themselves, so set this to include contact details
+    userAgent: getString('UPSTREAM_USER_AGENT', 'readarr-server (Readarr metadata server)'),
+    // Maximum requests per second
+    rateLimit: getNumber('UPSTREAM_RATE_LIMIT', 5),
+    // How many times to retry a request before giving up, OLP_UPDATE_RETRIES is the old name for this
+    retries: getNumber('UPSTREAM_RETRIES', getNumber('UPDATE_RETRIES', 1)),
+    // Seconds to wait before the first retry, doubling for each one after
+    backoff: getNumber('UPSTREAM_BACKOFF', 5),
+    // Seconds to wait on a request before timing out, OLP_UPDATE_TIMEOUT is the old name for this
+    timeout: getNumber('UPSTREAM_TIMEOUT', getNumber('UPDATE_TIMEOUT', 30)),
   },
 }
 
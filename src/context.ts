@@ -0,0 +1,42 @@
+import type { EditionOptions } from './bookinfo/editions'
+import type { Loader } from './loader'
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+/** State scoped to a single incoming request */
+export interface RequestContext {
+  // Matched route pattern e.g. /bookinfo/v1/author/:id
+  route?: string
+  // Whether a cached response was used
+  cache?: 'hit' | 'miss'
+  // Total milliseconds spent waiting on database queries
+  dbTime: number
+  dbQueries: number
+  // Batching loaders for the data layer, by name
+  loaders: Map<string, Loader<unknown>>
+  // Overrides of which editions to return
+  editionOptions?: Partial<EditionOptions>
+}
+
+const storage = new AsyncLocalStorage<RequestContext>()
+
+/** Run a function with a fresh request context */
+export function runWithContext<T>(fn: () => T): T {
+  return storage.run({ dbTime: 0, dbQueries: 0, loaders: new Map() }, fn)
+}
+
+/** Get the context of the current request, if there is one */
+export function getContext(): RequestContext | undefined {
+  return storage.getStore()
+}
+
+/** Wrap a function so it runs in the current request context, for callbacks which are called outside of it e.g. streams */
+export function bindContext<A extends unknown[], R>(fn: (...args: A) => R): (...args: A) => R {
+  const context = storage.getStore()
+  return context ? (...args) => storage.run(context, () => fn(...args)) : fn
+}
+
+/** Record whether the current request was served from cache */
+export function setCacheStatus(status: 'hit' | 'miss'): void {
+  const context = getContext()
+  if (context) context.cache = status
+}
@@ -0,0 +1,28 @@
+import { expect, test } from 'bun:test'
+import { getContext, runWithContext } from './context'
+import db, { query, transaction } from './database'
+
+test('counts and times queries made while handling a request', async () => {
+  const context = await runWithContext(async () => {
+    await query(db, 'SELECT 1')
+    await query(db, 'SELECT pg_sleep(0.01)')
+    return getContext()!
+  })
+
+  expect(context.dbQueries).toBe(2)
+  expect(context.dbTime).toBeGreaterThanOrEqual(10)
+})
+
+test('counts queries made in a transaction', async () => {
+  const context = await runWithContext(async () => {
+    await transaction((client) => query(client, 'SELECT 1'))
+    return getContext()!
+  })
+
+  // Along with the BEGIN and COMMIT
+  expect(context.dbQueries).toBe(3)
+})
+
+test('runs queries outside of a request too', async () => {
+  expect((await query(db, 'SELECT 1 AS one')).rows).toEqual([{ one: 1 }])
+})
@@ -1,5 +1,6 @@
 import config from './config'
-import { Pool } from 'pg'
+import { getContext } from './context'
+import { Pool, type PoolClient, type QueryResult, type QueryResultRow } from 'pg'
 
 if (!config.postgres.connectionString) {
   throw new Error('Please set OLP_POSTGRES_CONNECTION_STRING first')
@@ -13,6 +14,45 @@ const db = new Pool({
   keepAlive: true,
 })
 
+/**
+ * Run a query on the pool, or on a client e.g. in a transaction
+ * Queries are timed so requests can report how long they spent waiting on the database
+ */
+export async function query<R extends QueryResultRow = any>(
+  client: Pool | PoolClient,
+  text: string,
+  values?: unknown[],
+): Promise<QueryResult<R>> {
+  const context = getContext()
+  const start = performance.now()
+
+  try {
+    return await client.query<R>(text, values)
+  } finally {
+    if (context) {
+      context.dbTime += performance.now() - start
+      context.dbQueries++
+    }
+  }
+}
+
+/** Run queries in a transaction, which needs a dedicated connection so every query uses it */
+export async function transaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await db.connect()
+
+  try {
+    await query(client, 'BEGIN')
+    const result = await fn(client)
+    await query(client, 'COMMIT')
+    return result
+  } catch (error) {
+    await query(client, 'ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
 // Graceful shutdown
 async function closeDb() {
   try {
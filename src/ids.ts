@@ -4,7 +4,7 @@ const MAX_VALUE = 0x7fffffff
 
 /** Encodes OL ID to 32-bit integer */
 export function encodeReadarrId(olId: string): number {
-  const match = olId.match(/OL(\d+)[AMW]/)
+  const match = olId.match(/OL(\d+)[AMSW]/)
   if (!match) {
     throw new Error('Invalid Open Library ID format')
   }
@@ -45,6 +45,10 @@ export function decodeReadarrId(id: number, type: string): string {
   } else if (type === 'work') {
     prefix = 'works'
     suffix = 'W'
+  } else if (type === 'series') {
+    // OL has no series, so these wrap the Goodreads series ID from the mapping
+    prefix = 'series'
+    suffix = 'S'
   } else {
     throw new Error(`Unknown type: ${type}`)
   }
@@ -67,6 +71,14 @@ export function convertOlId(id: number | string, type: string): string {
   return decodeReadarrId(Number(id), type)
 }
 
+/** Whether an OL key or numeric ID fits in a Readarr ID, so can be encoded and decoded without throwing */
+export function isInRange(id: number | string): boolean {
+  const match = typeof id === 'string' ? id.match(/OL(\d+)[AMSW]/i) : null
+  const value = match ? THRESHOLD + Number(match[1]) : Number(id)
+
+  return Number.isSafeInteger(value) && value >= 0 && value <= MAX_VALUE
+}
+
 /** Whether the ID is a Goodreads ID */
 export function isGoodreadsId(id: number | string): boolean {
   if (id === 'string' && /\D/.test(id)) {
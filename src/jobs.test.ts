@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, expect, test } from 'bun:test'
+import { type Job, cancelJob, getJob, getJobs, startJob } from './jobs'
+import { resetDatabase } from './testing'
+import { Conflict, NotFound } from 'fejl'
+
+let started: Job[] = []
+
+beforeEach(() => resetDatabase())
+
+// Don't leave tasks running once a test is done
+afterEach(async () => {
+  for (const job of started) {
+    if ((await getJob(job.id))?.status === 'running') await cancelJob(job.id)
+  }
+
+  started = []
+})
+
+async function start(...args: Parameters<typeof startJob>): Promise<Job> {
+  const job = await startJob(...args)
+  started.push(job)
+  return job
+}
+
+test('starts a job', async () => {
+  const job = await start('cache', false)
+
+  expect(job).toMatchObject({ type: 'cache', status: 'running', finished: null, progress: null })
+  expect(await getJob(job.id)).toEqual(job)
+})
+
+test("won't start a second job of the same type while one is running", async () => {
+  const results = await Promise.allSettled([start('cache', false), start('cache', false)])
+
+  expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1)
+
+  const rejected = results.find((result) => result.status === 'rejected')
+  expect(rejected?.reason).toBeInstanceOf(Conflict)
+  expect(rejected?.reason.status).toBe(409)
+})
+
+test('lists jobs, most recent first', async () => {
+  const first = await start('cache', false)
+  await cancelJob(first.id)
+  const second = await start('cache', false)
+
+  expect((await getJobs()).map((job) => job.id)).toEqual([second.id, first.id])
+})
+
+test('cancels a running job', async () => {
+  const job = await start('cache', false)
+  const cancelled = await cancelJob(job.id)
+
+  expect(cancelled).toMatchObject({ id: job.id, status: 'cancelled' })
+  expect(cancelled.finished).not.toBeNull()
+  expect((await getJob(job.id))?.status).toBe('cancelled')
+
+  // It's no longer running, so can't be cancelled again
+  await expect(cancelJob(job.id)).rejects.toBeInstanceOf(Conflict)
+})
+
+test("can't cancel a job which doesn't exist", async () => {
+  await expect(cancelJob('missing')).rejects.toBeInstanceOf(NotFound)
+})
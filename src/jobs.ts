@@ -0,0 +1,190 @@
+import { Conflict, NotFound } from 'fejl'
+import os from 'node:os'
+import { query, transaction } from './database'
+import * as log from './log'
+import * as model from './model'
+
+export const JOB_TYPES = ['cache', 'update'] as const
+
+export type JobType = (typeof JOB_TYPES)[number]
+
+/** Set by the task itself, the shape depends on the type of job e.g. how many of the total have been done */
+export type JobProgress = { [key: string]: string | number | null }
+
+export interface Job {
+  id: string
+  type: JobType
+  // Jobs are shared between servers, but the process can only be checked on or stopped from the one running it
+  hostname: string
+  pid: number | null
+  status: 'running' | 'finished' | 'failed' | 'cancelled'
+  started: string
+  finished: string | null
+  progress: JobProgress | null
+}
+
+// Jobs are saved in the store so every worker can see them
+const PREFIX = 'job:'
+
+// How many finished jobs to keep
+const HISTORY = 20
+
+/** Spawn a task as a background process, refusing if one of the same type is already running */
+export async function startJob(type: JobType, inheritOutput: boolean = true): Promise<Job> {
+  const { job, proc } = await transaction(async (client) => {
+    // Held until the job is saved, so concurrent requests can't both find none running and each start one
+    await query(client, 'SELECT pg_advisory_xact_lock(hashtext($1))', [`readarr-server:start-${type}`])
+
+    const running = await getRunningJob(type)
+
+    if (running) {
+      throw new Conflict(`A ${type} job is already running: ${running.id}`)
+    }
+
+    const id = crypto.randomUUID()
+
+    const proc = Bun.spawn(['bun', 'run', `src/tasks/${type}.ts`], {
+      env: { ...process.env, OLP_JOB_ID: id },
+      stdio: inheritOutput ? ['inherit', 'inherit', 'inherit'] : ['ignore', 'ignore', 'ignore'],
+    })
+
+    const job: Job = {
+      id,
+      type,
+      hostname: os.hostname(),
+      pid: proc.pid,
+      status: 'running',
+      started: new Date().toISOString(),
+      finished: null,
+      progress: null,
+    }
+
+    await saveJob(job)
+    return { job, proc }
+  })
+
+  await pruneJobs()
+
+  proc.exited
+    .then(async (code) => {
+      const current = await getJob(job.id)
+
+      // Cancelled jobs have already been updated
+      if (current?.status === 'running') {
+        await saveJob({ ...current, status: code === 0 ? 'finished' : 'failed', finished: new Date().toISOString() })
+      }
+    })
+    .catch((error) => log.error(`Error updating ${type} job ${job.id}`, error))
+
+  return job
+}
+
+/** Stop a running job */
+export async function cancelJob(id: string): Promise<Job> {
+  const job = await getJob(id)
+
+  if (!job) {
+    throw new NotFound(`Job not found: ${id}`)
+  }
+  if (job.status !== 'running') {
+    throw new Conflict(`Job is not running: ${id}`)
+  }
+
+  if (!isLocal(job)) {
+    throw new Conflict(`Job is running on ${job.hostname}, so can only be cancelled there: ${id}`)
+  }
+
+  if (job.pid && isAlive(job.pid)) {
+    process.kill(job.pid, 'SIGTERM')
+  }
+
+  const cancelled: Job = { ...job, status: 'cancelled', finished: new Date().toISOString() }
+  await saveJob(cancelled)
+
+  return cancelled
+}
+
+/** Get a job by ID */
+export async function getJob(id: string): Promise<Job | null> {
+  const job: Job | null = await model.getStore(PREFIX + id, false)
+  return job ? checkStale(job) : null
+}
+
+/** Get all jobs, most recent first */
+export async function getJobs(): Promise<Job[]> {
+  const jobs: Job[] = await model.getStoreByPrefix(PREFIX)
+
+  return Promise.all(jobs.map(checkStale)).then((jobs) => jobs.sort((a, b) => b.started.localeCompare(a.started)))
+}
+
+/** Get the running job of the given type, if there is one */
+export async function getRunningJob(type: JobType): Promise<Job | null> {
+  return (await getJobs()).find((job) => job.type === type && job.status === 'running') ?? null
+}
+
+/** Called from within a task to record how far it has got */
+export async function reportProgress(progress: JobProgress): Promise<void> {
+  const id = process.env.OLP_JOB_ID
+
+  // Not started as a job e.g. run directly from the command line
+  if (!id) return
+
+  const job = await getJob(id)
+
+  if (job) {
+    await saveJob({ ...job, progress })
+  }
+}
+
+/** Called from within a task when it ends, so the job is updated even if the process that started it has gone */
+export async function finishJob(status: 'finished' | 'failed'): Promise<void> {
+  const id = process.env.OLP_JOB_ID
+  if (!id) return
+
+  const job = await getJob(id)
+
+  if (job?.status === 'running') {
+    await saveJob({ ...job, status, finished: new Date().toISOString() })
+  }
+}
+
+/**
+ * Jobs can be left running if the process that spawned them died, so check the process still exists
+ * Jobs on other servers are left to update themselves, as their pid means nothing here
+ */
+async function checkStale(job: Job): Promise<Job> {
+  if (job.status === 'running' && isLocal(job) && (!job.pid || !isAlive(job.pid))) {
+    job = { ...job, status: 'failed', finished: job.finished ?? new Date().toISOString() }
+    await saveJob(job)
+  }
+
+  return job
+}
+
+/** Remove the oldest finished jobs */
+async function pruneJobs(): Promise<void> {
+  const finished = (await getJobs()).filter((job) => job.status !== 'running')
+
+  for (const job of finished.slice(HISTORY)) {
+    await model.deleteStore(PREFIX + job.id)
+  }
+}
+
+async function saveJob(job: Job): Promise<void> {
+  await model.setStore(PREFIX + job.id, job, false)
+}
+
+/** Jobs saved before the hostname was recorded were always started on a single server */
+function isLocal(job: Job): boolean {
+  return !job.hostname || job.hostname === os.hostname()
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    // Signal 0 only checks the process exists
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    return false
+  }
+}
@@ -0,0 +1,74 @@
+import { getContext } from './context'
+
+/** Loads values by key, batching keys requested together into a single query */
+export interface Loader<V> {
+  load(key: string): Promise<V | null>
+  loadMany(keys: string[]): Promise<(V | null)[]>
+}
+
+/**
+ * Create a loader which collects keys requested in the same tick of the event loop and loads them with one batch call
+ * Results are memoised, so each key is only loaded once for the lifetime of the loader
+ */
+export function createLoader<V>(batch: (keys: string[]) => Promise<Map<string, V>>): Loader<V> {
+  const results = new Map<string, Promise<V | null>>()
+  let queue: { key: string; resolve: (value: V | null) => void; reject: (error: unknown) => void }[] = []
+
+  const dispatch = async () => {
+    const pending = queue
+    queue = []
+
+    try {
+      const values = await batch([...new Set(pending.map((item) => item.key))])
+      pending.forEach((item) => item.resolve(values.get(item.key) ?? null))
+    } catch (error) {
+      // Don't memoise failures, so they can be retried
+      pending.forEach((item) => {
+        results.delete(item.key)
+        item.reject(error)
+      })
+    }
+  }
+
+  const load = (key: string): Promise<V | null> => {
+    const existing = results.get(key)
+    if (existing) return existing
+
+    const promise = new Promise<V | null>((resolve, reject) => {
+      // Wait until everything queued in this tick has had a chance to request its keys too
+      if (!queue.length) setImmediate(dispatch)
+      queue.push({ key, resolve, reject })
+    })
+
+    results.set(key, promise)
+    return promise
+  }
+
+  return {
+    load,
+    loadMany: (keys) => Promise.all(keys.map(load)),
+  }
+}
+
+/**
+ * Get the named loader for the current request, so everything handling it shares the same batches and results
+ * Outside of a request e.g. in tasks, a new loader is used each time so results are never stale
+ */
+export function getLoader<V>(name: string, batch: (keys: string[]) => Promise<Map<string, V>>): Loader<V> {
+  const context = getContext()
+  if (!context) return createLoader(batch)
+
+  let loader = context.loaders.get(name)
+
+  if (!loader) {
+    loader = createLoader(batch)
+    context.loaders.set(name, loader)
+  }
+
+  return loader as Loader<V>
+}
+
+/** Forget everything loaded for the current request, so results which are no longer needed can be freed */
+export function clearLoaders(): void {
+  getContext()?.loaders.clear()
+}
@@ -0,0 +1,69 @@
+import { beforeEach, expect, test } from 'bun:test'
+import db, { query } from './database'
+import { type LockState, withLock } from './lock'
+import * as model from './model'
+import { resetDatabase } from './testing'
+import os from 'node:os'
+
+beforeEach(() => resetDatabase())
+
+/** Lock state as if another process had saved it */
+function holder(backendPid: number, heartbeat: Date): LockState {
+  return {
+    pid: 123,
+    hostname: 'elsewhere',
+    backendPid,
+    acquired: heartbeat.toISOString(),
+    heartbeat: heartbeat.toISOString(),
+  }
+}
+
+test('holds the lock while running, and releases it afterwards', async () => {
+  const state = await withLock('test', () => model.getStore('lock_test', false))
+
+  expect(state).toMatchObject({ pid: process.pid, hostname: os.hostname() })
+  expect(await model.getStore('lock_test', false)).toBeNull()
+
+  // It can be taken again now it has been released
+  expect(await withLock('test', async () => 'again')).toBe('again')
+})
+
+test('refuses to run while the lock is held', async () => {
+  const nested = withLock('test', () => withLock('test', async () => 'nested'))
+
+  await expect(nested).rejects.toThrow('Unable to lock test, it is already running')
+
+  // Other locks are independent
+  expect(await withLock('test', () => withLock('other', async () => 'other'))).toBe('other')
+})
+
+test('recovers a lock left by a process which crashed', async () => {
+  // The advisory lock went with the crashed process's connection, but its state was never cleared
+  await model.setStore('lock_test', holder(1, new Date()), false)
+
+  expect(await withLock('test', async () => 'recovered')).toBe('recovered')
+  expect(await model.getStore('lock_test', false)).toBeNull()
+})
+
+test('takes over a lock which has stopped its heartbeat', async () => {
+  // Another connection holds the lock, but its process hasn't updated the heartbeat for a long time
+  const client = await db.connect()
+  client.on('error', () => {})
+
+  const backendPid: number = await query(
+    client,
+    `SELECT pg_try_advisory_lock(hashtext('readarr-server:test')), pg_backend_pid() AS pid`,
+  ).then((res) => res.rows[0].pid)
+
+  await model.setStore('lock_test', holder(backendPid, new Date('2024-01-01')), false)
+
+  try {
+    expect(await withLock('test', async () => 'taken over')).toBe('taken over')
+
+    // The stale holder's connection was ended to release its lock
+    const alive = await query(db, 'SELECT 1 FROM pg_stat_activity WHERE pid = $1', [backendPid])
+    expect(alive.rowCount).toBe(0)
+  } finally {
+    client.release(true)
+  }
+}, 10_000)
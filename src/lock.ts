@@ -0,0 +1,98 @@
+import config from './config'
+import db, { query } from './database'
+import * as log from './log'
+import * as model from './model'
+import os from 'node:os'
+
+/** Lock state saved in the store as lock_<name> so it can be inspected */
+export interface LockState {
+  pid: number
+  hostname: string
+  // Postgres connection holding the advisory lock
+  backendPid: number
+  acquired: string
+  heartbeat: string
+}
+
+/**
+ * Run a function while holding a Postgres advisory lock, so it can't run concurrently anywhere else
+ * Advisory locks are released automatically if the connection dies, so a crashed process never blocks others
+ * A process which hangs while holding the lock is detected by it no longer updating its heartbeat
+ */
+export async function withLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  const client = await db.connect()
+  const key = `readarr-server:${name}`
+  const storeKey = `lock_${name}`
+
+  const tryLock = async () =>
+    query(client, 'SELECT pg_try_advisory_lock(hashtext($1)) AS acquired, pg_backend_pid() AS pid', [key]).then(
+      (res) => res.rows[0] as { acquired: boolean; pid: number },
+    )
+
+  try {
+    let lock = await tryLock()
+    const previous: LockState | null = await model.getStore(storeKey, false)
+
+    let tookOver = false
+
+    if (!lock.acquired && previous && isStale(previous)) {
+      log.info(`Taking over stale ${name} lock`, { holder: previous })
+
+      // Ending the connection releases the lock
+      await query(
+        db,
+        `
+          SELECT pg_terminate_backend(pid)
+          FROM pg_locks
+          WHERE locktype = 'advisory' AND pid = $1
+        `,
+        [previous.backendPid],
+      )
+
+      // Give Postgres a moment to end the connection
+      await new Promise((resolve) => setTimeout(resolve, 1000))
+
+      lock = await tryLock()
+      tookOver = true
+    }
+
+    if (!lock.acquired) {
+      throw new Error(`Unable to lock ${name}, it is already running (pid ${previous?.pid ?? 'unknown'})`)
+    }
+
+    // The previous holder crashed without clearing its state
+    if (previous && !tookOver) {
+      log.info(`Recovered ${name} lock left by a process which crashed`, { holder: previous })
+    }
+
+    const now = new Date().toISOString()
+    const state: LockState = {
+      pid: process.pid,
+      hostname: os.hostname(),
+      backendPid: lock.pid,
+      acquired: now,
+      heartbeat: now,
+    }
+    await model.setStore(storeKey, state, false)
+
+    const heartbeat = setInterval(() => {
+      model
+        .setStore(storeKey, { ...state, heartbeat: new Date().toISOString() }, false)
+        .catch((error) => log.error(`Error updating ${name} lock heartbeat`, error))
+    }, config.locks.heartbeat * 1000)
+
+    try {
+      return await fn()
+    } finally {
+      clearInterval(heartbeat)
+      await model.deleteStore(storeKey)
+      await query(client, 'SELECT pg_advisory_unlock(hashtext($1))', [key])
+    }
+  } finally {
+    client.release()
+  }
+}
+
+function isStale(state: LockState): boolean {
+  return Date.now() - new Date(state.heartbeat).getTime() > config.locks.staleAfter * 1000
+}
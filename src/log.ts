@@ -0,0 +1,46 @@
+import config from './config'
+
+const levels = ['debug', 'info', 'warn', 'error'] as const
+
+type Level = (typeof levels)[number]
+
+/** Writes a single line of JSON so logs can be ingested by other tools */
+function write(level: Level, message: string, fields: { [key: string]: any } = {}): void {
+  if (levels.indexOf(level) < levels.indexOf(config.logLevel as Level)) {
+    return
+  }
+
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    pid: process.pid,
+    message,
+    ...fields,
+  })
+
+  if (level === 'error' || level === 'warn') {
+    console.error(line)
+  } else {
+    console.log(line)
+  }
+}
+
+export function debug(message: string, fields?: { [key: string]: any }): void {
+  write('debug', message, fields)
+}
+
+export function info(message: string, fields?: { [key: string]: any }): void {
+  write('info', message, fields)
+}
+
+export function warn(message: string, fields?: { [key: string]: any }): void {
+  write('warn', message, fields)
+}
+
+/** Logs an error, including the stack trace if there is one */
+export function error(message: string, err?: unknown, fields?: { [key: string]: any }): void {
+  write('error', message, {
+    ...fields,
+    ...(err instanceof Error ? { error: err.message, stack: err.stack } : err !== undefined ? { error: err } : {}),
+  })
+}
@@ -0,0 +1,204 @@
+import cluster from 'node:cluster'
+import config from './config'
+import db from './database'
+
+/** Metric values keyed by series e.g. http_requests_total{route="/bookinfo/v1/author/:id"} */
+export interface Snapshot {
+  counters: { [series: string]: number }
+  gauges: { [series: string]: number }
+  histograms: { [series: string]: { buckets: number[]; sum: number; count: number } }
+}
+
+const definitions: { [name: string]: { type: 'counter' | 'gauge' | 'histogram'; help: string } } = {
+  http_requests_total: { type: 'counter', help: 'Total number of HTTP requests' },
+  http_request_duration_seconds: { type: 'histogram', help: 'HTTP request latency in seconds' },
+  http_request_db_seconds_total: { type: 'counter', help: 'Total seconds spent in database queries for requests' },
+  cache_requests_total: { type: 'counter', help: 'Total number of cache lookups by result' },
+  pg_pool_connections: { type: 'gauge', help: 'Number of connections in the Postgres pools by state' },
+  pg_pool_max_connections: { type: 'gauge', help: 'Maximum number of connections across the Postgres pools' },
+}
+
+// Upper bounds in seconds, the author endpoint can take a long time for large authors
+const BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+
+const local: Snapshot = { counters: {}, gauges: {}, histograms: {} }
+
+// Latest snapshot from each worker, only used by the primary process
+const workerSnapshots = new Map<number, Snapshot>()
+
+// Requests for aggregated metrics awaiting a reply from the primary
+const pendingCollections = new Map<string, (snapshots: Snapshot[]) => void>()
+
+/** Record a completed HTTP request */
+export function recordRequest(route: string, method: string, status: number, seconds: number, dbSeconds: number): void {
+  increment(series('http_requests_total', { route, method, status: String(status) }))
+  increment(series('http_request_db_seconds_total', { route }), dbSeconds)
+  observe(series('http_request_duration_seconds', { route }), seconds)
+}
+
+/** Record whether a request could be served from cache */
+export function recordCache(route: string, hit: boolean): void {
+  increment(series('cache_requests_total', { route, result: hit ? 'hit' : 'miss' }))
+}
+
+/** Current metrics for this process */
+export function snapshot(): Snapshot {
+  local.gauges[series('pg_pool_connections', { state: 'total' })] = db.totalCount
+  local.gauges[series('pg_pool_connections', { state: 'idle' })] = db.idleCount
+  local.gauges[series('pg_pool_connections', { state: 'waiting' })] = db.waitingCount
+  local.gauges[series('pg_pool_max_connections', {})] = db.options.max ?? 0
+
+  return structuredClone(local)
+}
+
+/**
+ * Metrics aggregated across all the cluster workers
+ * Workers push their metrics to the primary periodically, so other workers may be slightly behind
+ */
+export async function collect(): Promise<Snapshot> {
+  if (!cluster.isWorker || !process.send) {
+    return snapshot()
+  }
+
+  const id = `${process.pid}-${Math.random().toString(36).slice(2)}`
+
+  const snapshots = await new Promise<Snapshot[]>((resolve) => {
+    // Fall back to just this worker if the primary doesn't respond
+    const timeout = setTimeout(() => {
+      pendingCollections.delete(id)
+      resolve([])
+    }, 1000)
+
+    pendingCollections.set(id, (snapshots) => {
+      clearTimeout(timeout)
+      resolve(snapshots)
+    })
+
+    process.send!({ type: 'metrics:collect', id, pid: process.pid })
+  })
+
+  return merge([snapshot(), ...snapshots])
+}
+
+/** Combine snapshots from multiple processes */
+export function merge(snapshots: Snapshot[]): Snapshot {
+  const merged: Snapshot = { counters: {}, gauges: {}, histograms: {} }
+
+  for (const snapshot of snapshots) {
+    for (const [key, value] of Object.entries(snapshot.counters)) {
+      merged.counters[key] = (merged.counters[key] ?? 0) + value
+    }
+    for (const [key, value] of Object.entries(snapshot.gauges)) {
+      merged.gauges[key] = (merged.gauges[key] ?? 0) + value
+    }
+    for (const [key, value] of Object.entries(snapshot.histograms)) {
+      const histogram = (merged.histograms[key] ??= { buckets: BUCKETS.map(() => 0), sum: 0, count: 0 })
+      value.buckets.forEach((count, i) => (histogram.buckets[i] += count))
+      histogram.sum += value.sum
+      histogram.count += value.count
+    }
+  }
+
+  return merged
+}
+
+/** Render in the Prometheus text exposition format */
+export function render(snapshot: Snapshot, extraGauges: { [series: string]: number } = {}): string {
+  const lines: string[] = []
+  const gauges = { ...snapshot.gauges, ...extraGauges }
+
+  const grouped = new Map<string, string[]>()
+  for (const key of [...Object.keys(snapshot.counters), ...Object.keys(gauges), ...Object.keys(snapshot.histograms)]) {
+    const name = key.split('{')[0]
+    grouped.set(name, [...(grouped.get(name) ?? []), key])
+  }
+
+  for (const [name, keys] of [...grouped.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    const definition = definitions[name]
+    if (definition) {
+      lines.push(`# HELP ${name} ${definition.help}`)
+      lines.push(`# TYPE ${name} ${definition.type}`)
+    }
+
+    for (const key of keys.sort()) {
+      const histogram = snapshot.histograms[key]
+
+      if (histogram) {
+        const labels = key.slice(name.length).replace(/^\{|\}$/g, '')
+        const prefix = labels ? `${labels},` : ''
+
+        let cumulative = 0
+        BUCKETS.forEach((bucket, i) => {
+          cumulative += histogram.buckets[i]
+          lines.push(`${name}_bucket{${prefix}le="${bucket}"} ${cumulative}`)
+        })
+        lines.push(`${name}_bucket{${prefix}le="+Inf"} ${histogram.count}`)
+        lines.push(`${name}_sum${labels ? `{${labels}}` : ''} ${histogram.sum}`)
+        lines.push(`${name}_count${labels ? `{${labels}}` : ''} ${histogram.count}`)
+      } else {
+        lines.push(`${key} ${snapshot.counters[key] ?? gauges[key]}`)
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+/** Define a metric which is rendered outside of the snapshots e.g. read from the database */
+export function define(name: string, type: 'counter' | 'gauge', help: string): void {
+  definitions[name] = { type, help }
+}
+
+/** Build a series key from a name and labels */
+export function series(name: string, labels: { [label: string]: string }): string {
+  const pairs = Object.entries(labels).map(([label, value]) => `${label}="${value.replace(/["\\\n]/g, '\\$&')}"`)
+  return pairs.length ? `${name}{${pairs.join(',')}}` : name
+}
+
+/** Primary keeps the latest metrics of each worker and answers requests to aggregate them */
+export function setupPrimary(): void {
+  cluster.on('message', (worker, message) => {
+    if (message?.type === 'metrics') {
+      workerSnapshots.set(message.pid, message.snapshot)
+    } else if (message?.type === 'metrics:collect') {
+      // The requesting worker uses its own live metrics instead
+      const snapshots = [...workerSnapshots.entries()].filter(([pid]) => pid !== message.pid).map(([, s]) => s)
+      worker.send({ type: 'metrics:collected', id: message.id, snapshots })
+    }
+  })
+
+  cluster.on('exit', (worker) => {
+    if (worker.process.pid) workerSnapshots.delete(worker.process.pid)
+  })
+}
+
+/** Workers periodically push their metrics to the primary */
+export function setupWorker(): void {
+  if (!cluster.isWorker || !process.send) return
+
+  setInterval(() => {
+    process.send!({ type: 'metrics', pid: process.pid, snapshot: snapshot() })
+  }, config.metrics.interval * 1000).unref()
+
+  process.on('message', (message: any) => {
+    if (message?.type === 'metrics:collected') {
+      pendingCollections.get(message.id)?.(message.snapshots)
+      pendingCollections.delete(message.id)
+    }
+  })
+}
+
+function increment(key: string, value: number = 1): void {
+  local.counters[key] = (local.counters[key] ?? 0) + value
+}
+
+function observe(key: string, value: number): void {
+  const histogram = (local.histograms[key] ??= { buckets: BUCKETS.map(() => 0), sum: 0, count: 0 })
+
+  // Buckets are stored non-cumulative and summed when rendering
+  const index = BUCKETS.findIndex((bucket) => value <= bucket)
+  if (index !== -1) histogram.buckets[index]++
+
+  histogram.sum += value
+  histogram.count++
+}
@@ -0,0 +1,353 @@
+import db, { query } from './database'
+
+export interface Migration {
+  id: number
+  name: string
+  sql: string
+}
+
+/**
+ * Everything the server itself owns in the database
+ * The Goodreads tables come from the mapping so aren't created here
+ * Migrations are append-only, never edit one that has been released
+ */
+export const migrations: Migration[] = [
+  {
+    id: 1,
+    name: 'extensions',
+    sql: `
+      -- Trigram similarity() is used to rank search results
+      CREATE EXTENSION IF NOT EXISTS pg_trgm;
+    `,
+  },
+  {
+    id: 2,
+    name: 'ol_tables',
+    sql: `
+      -- Matches the schema of https://github.com/LibrariesHacked/openlibrary-search
+      -- so existing installs are left untouched and fresh ones can use the dump import
+      CREATE TABLE IF NOT EXISTS authors (
+        type TEXT,
+        key TEXT PRIMARY KEY,
+        revision INTEGER,
+        last_modified TIMESTAMP,
+        data JSONB
+      );
+
+      CREATE TABLE IF NOT EXISTS works (
+        type TEXT,
+        key TEXT PRIMARY KEY,
+        revision INTEGER,
+        last_modified TIMESTAMP,
+        data JSONB
+      );
+
+      CREATE TABLE IF NOT EXISTS editions (
+        type TEXT,
+        key TEXT PRIMARY KEY,
+        revision INTEGER,
+        last_modified TIMESTAMP,
+        data JSONB,
+        work_key TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS edition_isbns (
+        edition_key TEXT NOT NULL,
+        isbn TEXT NOT NULL,
+        PRIMARY KEY (edition_key, isbn)
+      );
+
+      CREATE INDEX IF NOT EXISTS editions_work_key_idx ON editions (work_key);
+      CREATE INDEX IF NOT EXISTS edition_isbns_isbn_idx ON edition_isbns (isbn);
+    `,
+  },
+  {
+    id: 3,
+    name: 'store',
+    sql: `
+      CREATE TABLE IF NOT EXISTS store (
+        key TEXT PRIMARY KEY,
+        value JSONB
+      );
+    `,
+  },
+  {
+    id: 4,
+    name: 'cache',
+    sql: `
+      CREATE TABLE IF NOT EXISTS cache (
+        type TEXT NOT NULL,
+        key TEXT NOT NULL,
+        data TEXT NOT NULL,
+        last_modified TIMESTAMPTZ NOT NULL DEFAULT now(),
+        PRIMARY KEY (type, key)
+      );
+    `,
+  },
+  {
+    id: 5,
+    name: 'author_works',
+    sql: `
+      CREATE TABLE IF NOT EXISTS author_works (
+        author_key TEXT NOT NULL,
+        work_key TEXT NOT NULL,
+        PRIMARY KEY (author_key, work_key)
+      );
+
+      CREATE INDEX IF NOT EXISTS author_works_work_key_idx ON author_works (work_key);
+    `,
+  },
+  {
+    id: 6,
+    name: 'immutable_json_timestamp',
+    sql: `
+      -- Casting text to a timestamp isn't immutable, which is required to index it
+      -- OL timestamps are always ISO formatted UTC so this is safe
+      CREATE OR REPLACE FUNCTION immutable_json_timestamp(data JSONB)
+      RETURNS TIMESTAMPTZ
+      LANGUAGE sql
+      IMMUTABLE PARALLEL SAFE
+      AS $$ SELECT (data->'last_modified'->>'value')::timestamp AT TIME ZONE 'UTC' $$;
+
+      CREATE INDEX IF NOT EXISTS works_last_modified_idx ON works (immutable_json_timestamp(data));
+    `,
+  },
+  {
+    id: 7,
+    name: 'search_indexes',
+    sql: `
+      CREATE INDEX IF NOT EXISTS authors_name_tsvector_idx
+      ON authors USING gin (to_tsvector('simple', data->>'name'));
+
+      CREATE INDEX IF NOT EXISTS works_title_tsvector_idx
+      ON works USING gin (to_tsvector('simple', data->>'title'));
+    `,
+  },
+  {
+    id: 8,
+    name: 'cache_stale',
+    sql: `
+      -- Set when a record a cached response depends on changes, until it's rendered again
+      ALTER TABLE cache ADD COLUMN IF NOT EXISTS stale BOOLEAN NOT NULL DEFAULT false;
+
+      CREATE INDEX IF NOT EXISTS cache_stale_idx ON cache (type) WHERE stale;
+    `,
+  },
+  {
+    id: 9,
+    name: 'author_aliases',
+    sql: `
+      -- Every name an author is known by, so searches for pen names and transliterations find them
+      -- Source is the OL field the name came from, or "merged" for names of authors merged into this one
+      CREATE TABLE IF NOT EXISTS author_aliases (
+        author_key TEXT NOT NULL,
+        alias TEXT NOT NULL,
+        source TEXT NOT NULL,
+        PRIMARY KEY (author_key, alias)
+      );
+
+      CREATE INDEX IF NOT EXISTS author_aliases_tsvector_idx
+      ON author_aliases USING gin (to_tsvector('simple', alias));
+
+      INSERT INTO author_aliases (author_key, alias, source)
+      SELECT key, trim(alias), source
+      FROM authors
+      CROSS JOIN LATERAL (
+        SELECT data->>'name', 'name'
+        UNION ALL SELECT data->>'personal_name', 'personal_name'
+        UNION ALL SELECT data->>'fuller_name', 'fuller_name'
+        UNION ALL SELECT jsonb_array_elements_text(data->'alternate_names'), 'alternate_names'
+        WHERE jsonb_typeof(data->'alternate_names') = 'array'
+      ) AS names (alias, source)
+      WHERE authors.type = '/type/author' AND trim(alias) <> ''
+      ON CONFLICT (author_key, alias) DO NOTHING;
+    `,
+  },
+  {
+    id: 10,
+    name: 'search_trigram_indexes',
+    sql: `
+      -- Used when full text search finds nothing, to find names and titles with typos
+      CREATE INDEX IF NOT EXISTS author_aliases_alias_trgm_idx
+      ON author_aliases USING gin (alias gin_trgm_ops);
+
+      CREATE INDEX IF NOT EXISTS works_title_trgm_idx
+      ON works USING gin ((data->>'title') gin_trgm_ops);
+    `,
+  },
+  {
+    id: 11,
+    name: 'search_normalisation',
+    sql: `
+      CREATE EXTENSION IF NOT EXISTS unaccent;
+
+      -- Full text search ignoring accents, so "Bronte" finds "Brontë"
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'search') THEN
+          CREATE TEXT SEARCH CONFIGURATION search (COPY = simple);
+          ALTER TEXT SEARCH CONFIGURATION search ALTER MAPPING FOR hword, hword_part, word WITH unaccent, simple;
+        END IF;
+      END
+      $$;
+
+      -- Cyrillic and Greek to Latin, so names and titles can be found by how they're usually written in English
+      -- Queries are transliterated too, so this has to be immutable to be indexed
+      CREATE OR REPLACE FUNCTION transliterate(input TEXT)
+      RETURNS TEXT
+      LANGUAGE sql
+      IMMUTABLE PARALLEL SAFE
+      AS $$
+        SELECT translate(
+          replace(replace(replace(replace(replace(replace(replace(replace(replace(replace(replace(
+            lower(input),
+            'щ', 'shch'), 'ж', 'zh'), 'х', 'kh'), 'ц', 'ts'), 'ч', 'ch'), 'ш', 'sh'), 'ю', 'yu'), 'я', 'ya'),
+            'θ', 'th'), 'χ', 'ch'), 'ψ', 'ps'),
+          -- Signs without a sound at the end are removed
+          'абвгдеёзийклмнопрстуфыэіїєґαβγδεζηικλμνξοπρσςτυφωάέήίόύώϊϋΐΰъь',
+          'abvgdeeziyklmnoprstufyeiiegavgdeziiklmnxoprsstyfoaeiioyoiyiy'
+        )
+      $$;
+
+      -- Text as it's indexed for search, with Chinese and Japanese split into overlapping pairs of characters
+      -- as they aren't written with spaces between words
+      CREATE OR REPLACE FUNCTION search_text(input TEXT)
+      RETURNS TEXT
+      LANGUAGE plpgsql
+      IMMUTABLE PARALLEL SAFE
+      AS $$
+      DECLARE
+        output TEXT := '';
+        part TEXT;
+      BEGIN
+        FOR part IN
+          SELECT match[1]
+          FROM regexp_matches(transliterate(input), '([\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff]+|[^\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff]+)', 'g') AS match
+        LOOP
+          IF part ~ '^[\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff]' AND length(part) > 1 THEN
+            SELECT string_agg(substr(part, i, 2), ' ') INTO part FROM generate_series(1, length(part) - 1) AS i;
+          END IF;
+
+          output := output || ' ' || part;
+        END LOOP;
+
+        RETURN output;
+      END
+      $$;
+
+      DROP INDEX IF EXISTS works_title_tsvector_idx;
+      DROP INDEX IF EXISTS author_aliases_tsvector_idx;
+
+      CREATE INDEX IF NOT EXISTS works_title_search_idx
+      ON works USING gin (to_tsvector('search', search_text(data->>'title')));
+
+      CREATE INDEX IF NOT EXISTS author_aliases_search_idx
+      ON author_aliases USING gin (to_tsvector('search', search_text(alias)));
+    `,
+  },
+  {
+    id: 12,
+    name: 'cache_stale_version',
+    sql: `
+      -- Bumped each time a cached response is made stale, so one rendered meanwhile isn't saved as fresh
+      ALTER TABLE cache ADD COLUMN IF NOT EXISTS stale_version INTEGER NOT NULL DEFAULT 0;
+    `,
+  },
+  {
+    id: 13,
+    name: 'transliterate_upper_case',
+    sql: `
+      -- lower() only handles ASCII with the C locale many databases use, so Cyrillic and Greek capitals are lowered
+      -- here first, otherwise "Чехов" wouldn't find "чехов"
+      CREATE OR REPLACE FUNCTION transliterate(input TEXT)
+      RETURNS TEXT
+      LANGUAGE sql
+      IMMUTABLE PARALLEL SAFE
+      AS $$
+        SELECT translate(
+          replace(replace(replace(replace(replace(replace(replace(replace(replace(replace(replace(
+            translate(
+              lower(input),
+              'АБВГДЕЁЖЗИЙКЛМНОПРСТУФХЦЧШЩЪЫЬЭЮЯІЇЄҐΑΒΓΔΕΖΗΘΙΚΛΜΝΞΟΠΡΣΤΥΦΧΨΩΆΈΉΊΌΎΏΪΫ',
+              'абвгдеёжзийклмнопрстуфхцчшщъыьэюяіїєґαβγδεζηθικλμνξοπρστυφχψωάέήίόύώϊϋ'
+            ),
+            'щ', 'shch'), 'ж', 'zh'), 'х', 'kh'), 'ц', 'ts'), 'ч', 'ch'), 'ш', 'sh'), 'ю', 'yu'), 'я', 'ya'),
+            'θ', 'th'), 'χ', 'ch'), 'ψ', 'ps'),
+          -- Signs without a sound at the end are removed
+          'абвгдеёзийклмнопрстуфыэіїєґαβγδεζηικλμνξοπρσςτυφωάέήίόύώϊϋΐΰъь',
+          'abvgdeeziyklmnoprstufyeiiegavgdeziiklmnxoprsstyfoaeiioyoiyiy'
+        )
+      $$;
+
+      -- Indexes on expressions aren't updated when a function they use is replaced
+      REINDEX INDEX works_title_search_idx;
+      REINDEX INDEX author_aliases_search_idx;
+    `,
+  },
+]
+
+/** Get all migrations which haven't been applied yet */
+export async function getPendingMigrations(): Promise<Migration[]> {
+  const exists = await query(db, `SELECT to_regclass('public.migrations') IS NOT NULL AS exists`).then(
+    (res) => res.rows[0].exists as boolean,
+  )
+
+  if (!exists) {
+    return migrations
+  }
+
+  const applied = await query(db, 'SELECT id FROM migrations').then(
+    (res) => new Set(res.rows.map((row) => row.id as number)),
+  )
+
+  return migrations.filter((migration) => !applied.has(migration.id))
+}
+
+/** Apply all pending migrations in order, each in its own transaction */
+export async function runMigrations(dryRun: boolean = false): Promise<Migration[]> {
+  if (!dryRun) {
+    await query(
+      db,
+      `
+      CREATE TABLE IF NOT EXISTS migrations (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `,
+    )
+  }
+
+  const pending = (await getPendingMigrations()).sort((a, b) => a.id - b.id)
+
+  for (const migration of pending) {
+    if (dryRun) {
+      console.log(`-- ${migration.id}: ${migration.name}`)
+      console.log(migration.sql.replace(/^ {6}/gm, '').trim() + '\n')
+      continue
+    }
+
+    console.log(`Applying migration ${migration.id}: ${migration.name}`)
+
+    const client = await db.connect()
+
+    try {
+      await query(client, 'BEGIN')
+
+      // Indexes on the OL tables can take a long time to build
+      await query(client, 'SET LOCAL statement_timeout = 0')
+
+      await query(client, migration.sql)
+      await query(client, 'INSERT INTO migrations (id, name) VALUES ($1, $2)', [migration.id, migration.name])
+      await query(client, 'COMMIT')
+    } catch (error) {
+      await query(client, 'ROLLBACK')
+      const err = error as Error
+      throw new Error(`Error applying migration ${migration.id} (${migration.name}): ${err.message}`)
+    } finally {
+      client.release()
+    }
+  }
+
+  return pending
+}
@@ -0,0 +1,63 @@
+#!/usr/bin/env bun
+
+/**
+ * A fake Open Library serving records and recent changes from fixtures, so the update task can run offline
+ * Run with `bun run mock` and point the server at it with OLP_UPSTREAM_URL=http://localhost:8090
+ *
+ * Fixtures mirror OL paths e.g. fixtures/authors/OL23919A.json is served at /authors/OL23919A.json
+ * Recent changes are read from fixtures/recentchanges/yyyy/mm/dd/<kind>.json, falling back to
+ * fixtures/recentchanges/<kind>.json so the same changes are returned for every date
+ */
+
+import path from 'node:path'
+
+const port = Number(process.env.OLP_MOCK_PORT || 8090)
+const fixtures = process.env.OLP_MOCK_FIXTURES || path.join(import.meta.dir, 'fixtures')
+
+// Fraction of requests to fail with a 503, to exercise retries
+const failRate = Number(process.env.OLP_MOCK_FAIL_RATE || 0)
+
+const server = Bun.serve({
+  port,
+  async fetch(req) {
+    const url = new URL(req.url)
+
+    console.log(`${req.method} ${url.pathname}${url.search}`)
+
+    if (failRate && Math.random() < failRate) {
+      return Response.json({ error: 'Service Unavailable' }, { status: 503, headers: { 'Retry-After': '1' } })
+    }
+
+    const recentChanges = url.pathname.match(/^\/recentchanges\/(\d{4}\/\d{2}\/\d{2})\/([\w-]+)\.json$/)
+
+    if (recentChanges) {
+      const [, date, kind] = recentChanges
+      const changes: any[] =
+        (await readFixture(`recentchanges/${date}/${kind}.json`)) ??
+        (await readFixture(`recentchanges/${kind}.json`)) ??
+        []
+
+      const offset = Number(url.searchParams.get('offset') || 0)
+      const limit = Number(url.searchParams.get('limit') || 100)
+
+      return Response.json(changes.slice(offset, offset + limit))
+    }
+
+    if (/^\/(authors|works|books)\/OL\d+[AWM]\.json$/.test(url.pathname)) {
+      const record = await readFixture(url.pathname.slice(1))
+
+      if (record) {
+        return Response.json(record)
+      }
+    }
+
+    return Response.json({ error: 'notfound', key: url.pathname.replace(/\.json$/, '') }, { status: 404 })
+  },
+})
+
+console.log(`Mock Open Library server listening on ${server.url}`)
+
+async function readFixture(name: string): Promise<any | null> {
+  const file = Bun.file(path.join(fixtures, name))
+  return (await file.exists()) ? file.json() : null
+}
@@ -1,29 +1,32 @@
 import type { Author, Edition, Id, Model, Rating, Record, Series, Work } from './types'
-import db from './database'
+import type { PoolClient } from 'pg'
+import config from './config'
+import db, { query, transaction } from './database'
 import * as ids from './ids'
+import { getLoader } from './loader'
 import store from './store'
 import * as chrono from 'chrono-node'
 import ISBN from 'isbn3'
 
 /** Goodreads -> OL author mapping **/
 export async function authorToOl(id: string): Promise<string | null> {
-  return await db
-    .query('SELECT ol FROM goodreads_authors WHERE id = $1', [id])
-    .then((res) => res.rows[0]?.ol as string | null)
+  return getLoader('goodreadsAuthors', (ids) =>
+    loadMapping('SELECT id, ol AS key FROM goodreads_authors WHERE id = ANY($1)', ids),
+  ).load(id)
 }
 
 /** Goodreads -> OL edition mapping **/
 export async function editionToOl(id: string): Promise<string | null> {
-  return await db
-    .query('SELECT ol FROM goodreads_editions WHERE id = $1', [id])
-    .then((res) => res.rows[0]?.ol as string | null)
+  return getLoader('goodreadsEditions', (ids) =>
+    loadMapping('SELECT id, ol AS key FROM goodreads_editions WHERE id = ANY($1)', ids),
+  ).load(id)
 }
 
 /** Goodreads -> OL work mapping **/
 export async function workToOl(id: string): Promise<string | null> {
-  return await db
-    .query('SELECT work_ol FROM goodreads_works WHERE edition_id = $1', [id])
-    .then((res) => res.rows[0]?.work_ol as string | null)
+  return getLoader('goodreadsWorks', (ids) =>
+    loadMapping('SELECT edition_id AS id, work_ol AS key FROM goodreads_works WHERE edition_id = ANY($1)', ids),
+  ).load(id)
 }
 
 /** Get all editions for a given work ID (can be Goodreads ID or OL) **/
@@ -31,32 +34,67 @@ export async function getAuthor(id: string): Promise<Author | null> {
   const key = ids.isGoodreadsId(id) ? await authorToOl(id) : ids.convertOlId(id, 'author')
   if (!key) return null
 
-  return await db
-    .query('SELECT * FROM authors WHERE key = $1', [key])
-    .then(async (res) => (await processModel(res.rows[0])) as Author | null)
+  return authorLoader().load(key)
 }
 
 /** Bulk fetch authors by OL ID */
 export async function getAuthors(ids: Id[]): Promise<Author[]> {
-  return await db
-    .query<Author>('SELECT * FROM authors WHERE key = ANY($1::text[])', [ids])
-    .then((res) => Promise.all(res.rows.map((row) => processModel(row) as unknown as Author)))
+  return await authorLoader()
+    .loadMany(ids)
     .then((res) => res.filter((author): author is Author => author != null))
 }
 
+/** Resolve author names to OL keys, where there's an exact match, batched with any other names looked up at the same time */
+export async function getAuthorKeysByName(names: string[]): Promise<Map<string, Id>> {
+  // Matching ignores case, so names are looked up in lower case
+  const lowered = [...new Set(names.map((name) => name.toLowerCase()))]
+
+  const keys = await getLoader('authorKeysByName', (names) =>
+    query(
+      db,
+      `
+        SELECT DISTINCT ON (names.name) names.name, authors.key
+        FROM unnest($1::text[]) AS names(name)
+        JOIN authors ON (
+          to_tsvector('simple', authors.data->>'name') @@ plainto_tsquery('simple', names.name)
+          AND lower(authors.data->>'name') = names.name
+          AND authors.type = '/type/author'
+        )
+        ORDER BY names.name, authors.revision DESC
+      `,
+      [names],
+    ).then((res) => new Map(res.rows.map((row) => [row.name as string, row.key as Id]))),
+  ).loadMany(lowered)
+
+  return new Map(lowered.flatMap((name, i) => (keys[i] ? [[name, keys[i]] as const] : [])))
+}
+
+/** Get any tables from the OL import or Goodreads mapping which don't exist */
+export async function getMissingTables(): Promise<{ ol: string[]; mapping: string[] }> {
+  const tables = await query(db, `SELECT table_name FROM information_schema.tables WHERE table_schema = 'public'`).then(
+    (res) => res.rows.map((row) => row.table_name as string),
+  )
+
+  return {
+    ol: ['authors', 'editions', 'edition_isbns', 'works'].filter((table) => !tables.includes(table)),
+    mapping: ['goodreads', 'goodreads_authors', 'goodreads_series', 'goodreads_works', 'ratings'].filter(
+      (table) => !tables.includes(table),
+    ),
+  }
+}
+
 /** Get the IDs of all authors with new editions since the given date **/
 export async function getAuthorsUpdatedSince(date: Date, limit: number): Promise<Id[]> {
-  return await db
-    .query(
-      `
+  return await query(
+    db,
+    `
         SELECT key
         FROM works
         WHERE immutable_json_timestamp(data) >= $1::timestamptz
         LIMIT $2
       `,
-      [date.toISOString(), limit],
-    )
-    .then((res) => res.rows.map((row) => row.key as Id))
+    [date.toISOString(), limit],
+  ).then((res) => res.rows.map((row) => row.key as Id))
 }
 
 /** Get a work by the given author (can be Goodreads ID or OL) **/
@@ -65,9 +103,9 @@ export async function getAuthorWork(id: string): Promise<Work | null> {
   if (!key) return null
 
   // Return work with the the most editions
-  return await db
-    .query(
-      `
+  return await query(
+    db,
+    `
         SELECT works.*, COUNT(editions.key) AS editions_count
         FROM author_works
         JOIN works ON author_works.work_key = works.key
@@ -77,17 +115,16 @@ export async function getAuthorWork(id: string): Promise<Work | null> {
         ORDER BY editions_count DESC
         LIMIT 1
       `,
-      [key],
-    )
-    .then((res) => (res.rows[0] ? (processModel(res.rows[0]) as unknown as Work) : null))
+    [key],
+  ).then((res) => (res.rows[0] ? (processModel(res.rows[0]) as unknown as Work) : null))
 }
 
 /** Get all works by a given author ID **/
-export async function getAuthorWorks(id: string, limit?: number | null): Promise<Work[]> {
+export async function getAuthorWorks(id: string, limit?: number | null, offset: number = 0): Promise<Work[]> {
   const key = ids.isGoodreadsId(id) ? await authorToOl(id) : ids.convertOlId(id, 'author')
   if (!key) return []
 
-  let query: string = `
+  let sql: string = `
     SELECT works.*
     FROM author_works
     JOIN works on author_works.work_key = works.key
@@ -97,29 +134,115 @@ export async function getAuthorWorks(id: string, limit?: number | null): Promise
 
   // If we're limiting, only return works where the author is the primary author
   if (limit) {
-    query += `
+    sql += `
       AND (works.data->'authors'->0->'author'->>'key') = author_works.author_key
-      ORDER BY works.revision DESC
-      LIMIT $2
+      ORDER BY works.revision DESC, works.key
+      LIMIT $2 OFFSET $3
     `
   } else {
-    query += ` ORDER BY works.revision DESC`
+    sql += ` ORDER BY works.revision DESC`
   }
 
-  return await db
-    .query(query, limit ? [key, limit] : [key])
+  return await query(db, sql, limit ? [key, limit, offset] : [key])
     .then((res) => Promise.all(res.rows.map(async (row) => (await processModel(row)) as unknown as Work)))
     .then((res) => res.filter((work): work is Work => work != null))
 }
 
-/** Retrieves cached response by type and key */
-export async function getCache(type: string, key: string): Promise<string | null> {
-  const query = `
+/** The most revised works the author is the primary author of, batched with any other authors looked up at the same time */
+export async function getPrimaryAuthorWorks(key: Id, limit: number): Promise<Work[]> {
+  const loader = getLoader(`primaryAuthorWorks:${limit}`, async (keys) => {
+    const res = await query(
+      db,
+      `
+        SELECT authors.key AS author_key, works.*
+        FROM unnest($1::text[]) AS authors(key)
+        CROSS JOIN LATERAL (
+          SELECT works.*
+          FROM author_works
+          JOIN works ON author_works.work_key = works.key
+          WHERE author_works.author_key = authors.key
+            AND works.type = '/type/work'
+            AND (works.data->'authors'->0->'author'->>'key') = author_works.author_key
+          ORDER BY works.revision DESC, works.key
+          LIMIT $2
+        ) works
+      `,
+      [keys, limit],
+    )
+
+    const works = new Map<string, Work[]>(keys.map((key) => [key, []]))
+    const models = await Promise.all(res.rows.map((row) => processModel(row)))
+
+    res.rows.forEach((row, i) => {
+      if (models[i]) works.get(row.author_key)?.push(models[i] as unknown as Work)
+    })
+
+    return works
+  })
+
+  return (await loader.load(key)) ?? []
+}
+
+/** Count the editions of a work, batched with any other works counted at the same time */
+export async function getWorkEditionCount(key: Id): Promise<number> {
+  const count = await getLoader('workEditionCounts', (keys) =>
+    query(
+      db,
+      'SELECT work_key, COUNT(*)::integer AS count FROM editions WHERE work_key = ANY($1::text[]) GROUP BY work_key',
+      [keys],
+    ).then((res) => new Map(res.rows.map((row) => [row.work_key as string, row.count as number]))),
+  ).load(key)
+
+  return count ?? 0
+}
+
+/** Count the works where the given author is the primary author, which are the ones returned when limiting */
+export async function getAuthorWorkCount(key: Id): Promise<number> {
+  return query(
+    db,
+    `
+        SELECT COUNT(*) AS count
+        FROM author_works
+        JOIN works on author_works.work_key = works.key
+        WHERE author_key = $1
+          AND type = '/type/work'
+          AND (works.data->'authors'->0->'author'->>'key') = author_works.author_key
+      `,
+    [key],
+  ).then((res) => parseInt(res.rows[0].count, 10))
+}
+
+/** Retrieves cached response by type and key, unless it's stale or has expired */
+export async function getCache(type: string, key: string, ttl: number = config.cache.ttl): Promise<string | null> {
+  const sql = `
     SELECT data FROM cache
-    WHERE type = $1 AND key = $2
+    WHERE type = $1 AND key = $2 AND ${freshCache('$3')}
+  `
+
+  return await query(db, sql, [type, key, ttl]).then((res) => (res.rows[0] ? res.rows[0].data : null))
+}
+
+/** Keys of cached responses which need rendering again */
+export async function getStaleCacheKeys(type: string): Promise<string[]> {
+  const sql = `
+    SELECT key FROM cache
+    WHERE type = $1 AND NOT (${freshCache('$2')})
   `
 
-  return await db.query(query, [type, key]).then((res) => (res.rows[0] ? res.rows[0].data : null))
+  return query(db, sql, [type, config.cache.ttl]).then((res) => res.rows.map((row) => row.key as string))
+}
+
+/** Remove cached responses older than the TTL */
+export async function deleteExpiredCache(type: string, ttl: number): Promise<void> {
+  await query(db, 'DELETE FROM cache WHERE type = $1 AND last_modified < now() - make_interval(secs => $2::integer)', [
+    type,
+    ttl,
+  ])
+}
+
+/** Remove a cached response e.g. when the record no longer exists */
+export async function deleteCache(type: string, key: string): Promise<void> {
+  await query(db, 'DELETE FROM cache WHERE type = $1 AND key = $2', [type, key])
 }
 
 /** Get all editions for a given work ID (can be Goodreads ID or OL) **/
@@ -127,9 +250,9 @@ export async function getEdition(id: string): Promise<Edition | null> {
   const key = ids.isGoodreadsId(id) ? await editionToOl(id) : ids.convertOlId(id, 'edition')
   if (!key) return null
 
-  return await db
-    .query('SELECT * FROM editions WHERE key = $1 AND work_key IS NOT NULL', [key])
-    .then((res) => (res.rows[0] ? (processModel(res.rows[0]) as unknown as Edition) : null))
+  return getLoader('editions', (keys) =>
+    loadModels<Edition>('SELECT * FROM editions WHERE key = ANY($1::text[]) AND work_key IS NOT NULL', keys),
+  ).load(key)
 }
 
 /** Get all authors who have over 1000 works **/
@@ -137,12 +260,13 @@ export async function getLargeAuthors(): Promise<string[]> {
   const client = await db.connect()
 
   try {
-    await client.query('BEGIN')
+    await query(client, 'BEGIN')
 
     // Ensure the query doesn't time out
-    await client.query('SET LOCAL statement_timeout = 0')
+    await query(client, 'SET LOCAL statement_timeout = 0')
 
-    const result = await client.query(
+    const result = await query(
+      client,
       `
         WITH work_counts AS (
           SELECT author_key, COUNT(DISTINCT work_key) as work_count
@@ -155,11 +279,11 @@ export async function getLargeAuthors(): Promise<string[]> {
       `,
     )
 
-    await client.query('COMMIT')
+    await query(client, 'COMMIT')
 
     return Promise.all(result.rows.map((row) => row.author_key))
   } catch (err) {
-    await client.query('ROLLBACK')
+    await query(client, 'ROLLBACK')
     throw err
   } finally {
     client.release()
@@ -174,7 +298,7 @@ export async function getStore(key: string, cache: boolean = true): Promise<any>
     return value
   }
 
-  value = await db.query(`SELECT value FROM store WHERE key = $1`, [key]).then((res) => res.rows[0]?.value)
+  value = await query(db, `SELECT value FROM store WHERE key = $1`, [key]).then((res) => res.rows[0]?.value)
 
   if (cache) {
     store.set(key, value ?? null)
@@ -183,11 +307,25 @@ export async function getStore(key: string, cache: boolean = true): Promise<any>
   return value ?? null
 }
 
+/** Get all values from the key/value store whose keys start with the given prefix */
+export async function getStoreByPrefix(prefix: string): Promise<any[]> {
+  return await query(db, `SELECT value FROM store WHERE key LIKE $1 AND value IS NOT NULL`, [
+    prefix.replace(/[\\%_]/g, '\\$&') + '%',
+  ]).then((res) => res.rows.map((row) => row.value))
+}
+
+/** Removes data from the key/value store */
+export async function deleteStore(key: string): Promise<void> {
+  await query(db, `DELETE FROM store WHERE key = $1`, [key])
+  store.unset(key)
+}
+
 /** Saves data to the key/value store */
 export async function setStore(key: string, value: any, cache: boolean = true): Promise<void> {
   value = value === null ? null : JSON.stringify(value)
 
-  await db.query(
+  await query(
+    db,
     `
       INSERT INTO store (key, value)
       VALUES ($1, $2)
@@ -214,7 +352,7 @@ export async function getUpdateTime(): Promise<Date> {
   if (updateTime) {
     date = new Date(updateTime)
   } else {
-    date = await db.query(`SELECT max(last_modified) as date FROM editions`).then((res) => {
+    date = await query(db, `SELECT max(last_modified) as date FROM editions`).then((res) => {
       // Set to start of the day UTC
       const date = new Date(res.rows[0].date)
       date.setUTCHours(0, 0, 0, 0)
@@ -243,14 +381,33 @@ export async function getUnprocessedKeys(): Promise<{ authors: string[]; works:
   }
 }
 
+/** Gets how many keys are left to process without loading them */
+export async function getUnprocessedKeyCounts(): Promise<{ authors: number; works: number; editions: number }> {
+  const counts = await query(
+    db,
+    `
+        SELECT key, jsonb_array_length(value) AS count
+        FROM store
+        WHERE key = ANY($1::text[]) AND jsonb_typeof(value) = 'array'
+      `,
+    [['unprocessed_author_keys', 'unprocessed_work_keys', 'unprocessed_edition_keys']],
+  ).then((res) => new Map(res.rows.map((row) => [row.key as string, row.count as number])))
+
+  return {
+    authors: counts.get('unprocessed_author_keys') ?? 0,
+    works: counts.get('unprocessed_work_keys') ?? 0,
+    editions: counts.get('unprocessed_edition_keys') ?? 0,
+  }
+}
+
 /** Get all editions for a given work ID (can be Goodreads ID or OL) **/
 export async function getWork(id: string): Promise<Work | null> {
   const key = ids.isGoodreadsId(id) ? await workToOl(id) : ids.convertOlId(id, 'work')
   if (!key) return null
 
-  return await db
-    .query('SELECT * FROM works WHERE key = $1', [key])
-    .then((res) => processModel(res.rows[0]) as unknown as Work | null)
+  return getLoader('works', (keys) => loadModels<Work>('SELECT * FROM works WHERE key = ANY($1::text[])', keys)).load(
+    key,
+  )
 }
 
 /** Get just the main author for a work **/
@@ -258,9 +415,11 @@ export async function getWorkAuthor(id: string): Promise<string | null> {
   const key = ids.isGoodreadsId(id) ? await workToOl(id) : ids.convertOlId(id, 'work')
   if (!key) return null
 
-  return await db
-    .query(`SELECT data->'authors'->0->'author'->'key' as author_key FROM works WHERE key = $1`, [key])
-    .then((res) => res.rows[0]?.author_key as string | null)
+  return getLoader('workAuthors', (keys) =>
+    query(db, `SELECT key, data->'authors'->0->'author'->>'key' as author_key FROM works WHERE key = ANY($1::text[])`, [
+      keys,
+    ]).then((res) => new Map(res.rows.map((row) => [row.key as string, row.author_key as string]))),
+  ).load(key)
 }
 
 /** Get a single editions for a given work ID (can be Goodreads ID or OL) **/
@@ -268,25 +427,27 @@ export async function getWorkEdition(id: string): Promise<Edition | null> {
   const key = ids.isGoodreadsId(id) ? await workToOl(id) : ids.convertOlId(id, 'work')
   if (!key) return null
 
-  return await db
-    .query(
+  return getLoader('workEdition', (keys) =>
+    loadModels<Edition>(
       `
-        SELECT * FROM editions
-        WHERE work_key = $1
+        SELECT DISTINCT ON (work_key) * FROM editions
+        WHERE work_key = ANY($1::text[])
         ORDER BY
+          work_key,
           revision DESC,
           (data->'created'->>'value')::timestamp ASC
-        LIMIT 1
       `,
-      [key],
-    )
-    .then((res) => processModel(res.rows[0]) as unknown as Edition | null)
+      keys,
+      'work_key',
+    ),
+  ).load(key)
 }
 
 /** Get all editions for the given OL work keys **/
 export async function getWorkEditions(keys: Id[]): Promise<Edition[]> {
-  return await db
-    .query(
+  const loader = getLoader('workEditions', async (keys) => {
+    const res = await query(
+      db,
       `
         SELECT * FROM editions
         WHERE work_key = ANY($1::text[])
@@ -296,14 +457,26 @@ export async function getWorkEditions(keys: Id[]): Promise<Edition[]> {
       `,
       [keys],
     )
-    .then((res) => Promise.all(res.rows.map(async (row) => (await processModel(row)) as unknown as Edition)))
-    .then((res) => res.filter((edition): edition is Edition => edition != null))
+
+    const editions = new Map<string, Edition[]>(keys.map((key) => [key, []]))
+    const models = await Promise.all(res.rows.map((row) => processModel(row)))
+
+    res.rows.forEach((row, i) => {
+      if (models[i]) editions.get(row.work_key)?.push(models[i] as unknown as Edition)
+    })
+
+    return editions
+  })
+
+  return loader.loadMany(keys).then((res) => res.flatMap((editions) => editions ?? []))
 }
 
 /** Get all ratings for the given OL work keys **/
 export async function getWorkRatings(keys: Id[], editions: boolean): Promise<Rating[]> {
-  return db
-    .query(
+  // Edition ratings are always loaded, so they can be shared with requests for just the work ratings
+  const loader = getLoader('workRatings', async (keys) => {
+    const res = await query(
+      db,
       `
         SELECT
           work_key,
@@ -312,64 +485,113 @@ export async function getWorkRatings(keys: Id[], editions: boolean): Promise<Rat
           COUNT(*) as count
         FROM ratings
         WHERE work_key = ANY($1::text[])
-        ${editions ? '' : 'AND edition_key IS NULL'}
         GROUP BY work_key, edition_key
         ORDER BY edition_key ASC
       `,
       [keys],
     )
-    .then(
-      (res) =>
-        res.rows.map((row) => ({
-          // Correctly type the number since pg returns strings for decimals
-          workKey: row.work_key,
-          editionKey: row.edition_key,
-          average: parseFloat(row.average as string),
-          count: parseInt(row.count as string, 10),
-        })) as Rating[],
+
+    const ratings = new Map<string, Rating[]>(keys.map((key) => [key, []]))
+
+    res.rows.forEach((row) =>
+      ratings.get(row.work_key)?.push({
+        // Correctly type the number since pg returns strings for decimals
+        workKey: row.work_key,
+        editionKey: row.edition_key,
+        average: parseFloat(row.average as string),
+        count: parseInt(row.count as string, 10),
+      } as Rating),
     )
+
+    return ratings
+  })
+
+  return loader
+    .loadMany(keys)
+    .then((res) => res.flatMap((ratings) => ratings ?? []))
+    .then((ratings) => (editions ? ratings : ratings.filter((rating) => rating.editionKey == null)))
 }
 
-/** Get the series for the given OL work keys */
+/** Get all the works in a Goodreads series, ordered by their position */
+export async function getSeries(seriesId: number): Promise<Series[]> {
+  return getSeriesWorks([seriesId])
+}
+
+/** Get the series for the given OL work keys, batched with any other works looked up at the same time */
 export async function getWorkSeries(workKeys: string[]): Promise<Series[]> {
-  return db
-    .query(
+  const loader = getLoader('workSeries', async (keys) => {
+    const res = await query(
+      db,
       `
-        SELECT DISTINCT series_id
+        SELECT DISTINCT work_ol, series_id
         FROM goodreads_series
         JOIN goodreads_works ON (
-            goodreads_series.work_id = goodreads_works.work_id
-            AND goodreads_works.work_ol IS NOT NULL
-          )
+          goodreads_series.work_id = goodreads_works.work_id
+          AND goodreads_works.work_ol IS NOT NULL
+        )
         WHERE work_ol = ANY($1::text[])
       `,
-      [workKeys],
+      [keys],
     )
-    .then((res) => {
-      // Get the full series for all the series IDs we found
-      return db
-        .query(
-          `
-            SELECT DISTINCT ON (goodreads_series.work_id) goodreads_series.*, goodreads_works.work_ol
-            FROM goodreads_series
-            JOIN goodreads_works ON (
-              goodreads_series.work_id = goodreads_works.work_id
-              AND goodreads_works.work_ol IS NOT NULL
-            )
-            WHERE series_id = ANY($1::integer[])
-          `,
-          [res.rows.map((row) => row.series_id)],
-        )
-        .then((res: { rows: any[] }) =>
-          // Need to format columns into camel case
-          res.rows.map((row) => ({
-            // workId is OL ID in Readarr format
-            workId: ids.encodeReadarrId(row.work_ol),
-            seriesId: row.series_id,
-            position: row.position,
-            title: row.title,
-          })),
+
+    // Get the full series for all the series IDs we found
+    const seriesIds = [...new Set(res.rows.map((row) => row.series_id as number))]
+    const members = seriesIds.length ? await getSeriesWorks(seriesIds) : []
+
+    const series = new Map<string, Series[]>(keys.map((key) => [key, []]))
+    res.rows.forEach((row) =>
+      series.get(row.work_ol)?.push(...members.filter((item) => item.seriesId === row.series_id)),
+    )
+
+    return series
+  })
+
+  // Works in the same series share its members, so only return each once
+  const seen = new Set<string>()
+
+  return loader
+    .loadMany(workKeys)
+    .then((res) => res.flatMap((series) => series ?? []))
+    .then((series) =>
+      series.filter((item) => {
+        const key = `${item.seriesId}:${item.workId}`
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      }),
+    )
+}
+
+/** Get all the works in the given Goodreads series */
+async function getSeriesWorks(seriesIds: number[]): Promise<Series[]> {
+  return query(
+    db,
+    `
+        SELECT DISTINCT ON (goodreads_series.work_id) goodreads_series.*, goodreads_works.work_ol
+        FROM goodreads_series
+        JOIN goodreads_works ON (
+          goodreads_series.work_id = goodreads_works.work_id
+          AND goodreads_works.work_ol IS NOT NULL
         )
+        WHERE series_id = ANY($1::integer[])
+      `,
+    [seriesIds],
+  )
+    .then((res: { rows: any[] }) =>
+      // Need to format columns into camel case
+      res.rows.map((row) => ({
+        // workId is OL ID in Readarr format
+        workId: ids.encodeReadarrId(row.work_ol),
+        seriesId: row.series_id,
+        position: row.position,
+        title: row.title,
+      })),
+    )
+    .then((series) => {
+      // Unnumbered works go last
+      const position = (item: Series) =>
+        isNaN(parseFloat(String(item.position))) ? Infinity : parseFloat(String(item.position))
+      return series.sort((a, b) => position(a) - position(b) || a.workId - b.workId)
     })
 }
 
@@ -377,6 +599,11 @@ export async function getWorkSeries(workKeys: string[]): Promise<Series[]> {
 export async function processModel(row: any): Promise<Model | null> {
   if (!row) return row
 
+  // Deleted records are kept so we know not to fetch them again, but shouldn't be shown
+  if (row.data.type.key == '/type/delete') {
+    return null
+  }
+
   // If redirect then fetch the correct model
   if (row.data.type.key == '/type/redirect') {
     const redirectKey = row.data.location
@@ -433,56 +660,33 @@ export async function processModel(row: any): Promise<Model | null> {
       }
     }
 
+    // Edition credits are names rather than authors e.g. "Translated by Jane Doe"
+    model.contributors = [
+      ...(Array.isArray(model.contributors) ? model.contributors : [])
+        .filter((contributor: { role?: string; name?: string }) => contributor?.role && contributor?.name)
+        .map((contributor: { role: string; name: string }) => ({
+          role: contributor.role.trim(),
+          name: contributor.name.trim(),
+        })),
+      ...(Array.isArray(model.contributions) ? model.contributions : []).flatMap(parseContribution),
+    ]
+
     // This is a year not a date
     if (model?.publishDate) {
       model.publishDate = toDate(model.publishDate)
     }
 
     // ISBNs
-    model.isbn_10 = Array.isArray(model.isbn_10) ? model.isbn_10 : []
-    model.isbn_13 = Array.isArray(model.isbn_13) ? model.isbn_13 : []
-
-    const validIsbn10Set = new Set<string>()
-    const validIsbn13Set = new Set<string>()
-
-    model.isbn_10.forEach((isbn: string) => {
-      const parsedIsbn = ISBN.parse(isbn)
-      if (parsedIsbn && parsedIsbn.isIsbn10 && parsedIsbn.isbn10 && parsedIsbn.isValid) {
-        validIsbn10Set.add(parsedIsbn.isbn10)
-        const converted = ISBN.asIsbn13(parsedIsbn.isbn10)
-        if (converted) validIsbn13Set.add(converted)
-      }
-    })
-    model.isbn_13.forEach((isbn: string) => {
-      const parsedIsbn = ISBN.parse(isbn)
-      if (parsedIsbn && parsedIsbn.isIsbn13 && parsedIsbn.isbn13 && parsedIsbn.isValid) {
-        validIsbn13Set.add(parsedIsbn.isbn13)
-        const converted = ISBN.asIsbn10(parsedIsbn.isbn13)
-        if (converted) validIsbn10Set.add(converted)
-      }
-    })
-    model.isbn_10 = Array.from(validIsbn10Set)
-    model.isbn_13 = Array.from(validIsbn13Set)
+    const isbns = normaliseIsbns(model.isbn_10, model.isbn_13)
+    model.isbn_10 = isbns.isbn10
+    model.isbn_13 = isbns.isbn13
   } else if (model.type.key == '/type/work') {
     if (model.authors) {
-      model.contributors = []
-
       // We set authors to just being actual authors
       // Contributors contains authors and anyone else along with their role
-      model.authors = model.authors
-        .map((author: { author?: { key?: string; type?: string } }) => {
-          if (author.author?.key && (!author.author?.type || author.author.type === '/type/author_role')) {
-            model.contributors.push({
-              type: author.author.type ?? '/type/author_role',
-              key: author.author.key,
-            })
-            return author.author.key
-          } else if (author.author?.key && author.author?.type) {
-            model.contributors.push({ type: author.author.type, key: author.author.key })
-          }
-          return null
-        })
-        .filter((authorId: string | null): authorId is string => authorId !== null)
+      const { authors, contributors } = parseWorkAuthors(model.authors)
+      model.authors = authors
+      model.contributors = contributors
     }
   }
 
@@ -528,41 +732,57 @@ export async function saveBatchUpdate(type: string, size: number, failedKeys: st
     RETURNING *;
   `
 
-  // Save in a transaction
-  try {
-    await db.query('BEGIN')
-    await db.query(sql, [`unprocessed_${type}_keys`, failedKeys, size])
-    await db.query('COMMIT')
-  } catch (error) {
-    await db.query('ROLLBACK')
-    throw error
-  }
+  await transaction((client) => query(client, sql, [`unprocessed_${type}_keys`, failedKeys, size]))
 }
 
-/** Whether or not a key has been cached */
+/** Whether or not a key has been cached, and doesn't need rendering again */
 export async function isCached(type: string, key: string): Promise<boolean> {
-  const query = `
+  const sql = `
     SELECT 1 FROM cache
-    WHERE type = $1 AND key = $2
+    WHERE type = $1 AND key = $2 AND ${freshCache('$3')}
   `
 
-  return db.query(query, [type, key]).then((result) => result.rows.length > 0)
+  return query(db, sql, [type, key, config.cache.ttl]).then((result) => result.rows.length > 0)
+}
+
+/** The stale version of a cached response, to pass to saveCache once it has been rendered again */
+export async function getCacheVersion(type: string, key: string): Promise<number | null> {
+  return query(db, 'SELECT stale_version FROM cache WHERE type = $1 AND key = $2', [type, key]).then((res) =>
+    res.rows[0] ? (res.rows[0].stale_version as number) : null,
+  )
 }
 
-/** Cache a JSON response for a record **/
-export async function saveCache(type: string, key: string, data: string): Promise<void> {
-  const query = `
-    INSERT INTO cache (type, key, data, last_modified)
-    VALUES ($1, $2, $3, $4)
+/**
+ * Cache a JSON response for a record
+ * It's only marked fresh if it hasn't been made stale again since the version read before rendering it
+ */
+export async function saveCache(type: string, key: string, data: string, version: number | null = null): Promise<void> {
+  const sql = `
+    INSERT INTO cache (type, key, data, last_modified, stale)
+    VALUES ($1, $2, $3, $4, false)
     ON CONFLICT (type, key)
-    DO UPDATE SET data = $3, last_modified = $4
+    DO UPDATE SET data = $3, last_modified = $4, stale = cache.stale AND cache.stale_version IS DISTINCT FROM $5::integer
   `
 
-  await db.query(query, [type, key, data, new Date().toISOString()])
+  await query(db, sql, [type, key, data, new Date().toISOString(), version])
 }
 
 /** Save a model to the database */
 export async function saveModel(record: Record): Promise<void> {
+  await saveModels([record])
+}
+
+/** Save models in a single transaction, along with the lookup tables derived from them */
+export async function saveModels(records: Record[]): Promise<void> {
+  await transaction(async (client) => {
+    for (const record of records) {
+      await saveRecord(client, record)
+    }
+  })
+}
+
+/** Save a single record, keeping the tables derived from it in sync */
+async function saveRecord(client: PoolClient, record: Record): Promise<void> {
   const table = (() => {
     if (record.key.startsWith('/authors/')) return 'authors'
     if (record.key.startsWith('/works/')) return 'works'
@@ -570,6 +790,8 @@ export async function saveModel(record: Record): Promise<void> {
     throw new Error(`Unknown model key type: ${record.key}`)
   })()
 
+  record = await followRedirects(client, record)
+
   const columns = ['type', 'key', 'revision', 'last_modified', 'data']
   const values: (string | number | null)[] = [
     record.type.key,
@@ -587,35 +809,6 @@ export async function saveModel(record: Record): Promise<void> {
     columns.push('work_key')
     values.push(record.works?.[0]?.key ?? null)
     placeholders.push(`$${placeholderIndex++}`)
-
-    const isbns = ['isbn_10', 'isbn_13']
-
-    isbns.forEach(async (isbn) => {
-      if ((record as any)[isbn]) {
-        await db.query(
-          `
-          INSERT INTO edition_isbns (edition_key, ${isbn})
-          VALUES ($1, $2)
-          ON CONFLICT (edition_key, isbn)
-          DO NOTHING
-          `,
-          [record.key, (record as any)[isbn]],
-        )
-      }
-    })
-  }
-
-  // Update author_works table
-  if (table === 'works' && record.authors?.[0]?.author.key) {
-    await db.query(
-      `
-      INSERT INTO author_works (author_key, work_key)
-      VALUES ($1, $2)
-      ON CONFLICT (author_key, work_key)
-      DO NOTHING
-    `,
-      [record.authors[0].author.key, record.key],
-    )
   }
 
   const updateSet = columns
@@ -623,14 +816,421 @@ export async function saveModel(record: Record): Promise<void> {
     .map((col) => `${col} = EXCLUDED.${col}`)
     .join(', ')
 
-  const query = `
+  const sql = `
     INSERT INTO ${table} (${columns.join(', ')})
     VALUES (${placeholders.join(', ')})
     ON CONFLICT (key)
     DO UPDATE SET ${updateSet}
   `
 
-  await db.query(query, values)
+  // Cached responses would otherwise still include the old record
+  await markCacheStale(client, table, record)
+
+  await query(client, sql, values)
+
+  if (record.type.key === '/type/edition') {
+    await saveEditionIsbns(client, record)
+  } else if (record.type.key === '/type/author') {
+    await saveAuthorAliases(client, record)
+  } else if (record.type.key === '/type/work') {
+    await saveAuthorWorks(client, record)
+  } else if (record.type.key === '/type/redirect' && record.location && record.location !== record.key) {
+    // Anything referencing a deleted or merged record needs to change with it
+    await repointModel(client, table, record.key, record.location)
+  } else if (record.type.key === '/type/delete') {
+    await unlinkModel(client, table, record.key)
+  }
+}
+
+/** Replace the ISBNs of an edition so any removed by an edit no longer match */
+async function saveEditionIsbns(client: PoolClient, record: Record): Promise<void> {
+  const { isbn10, isbn13 } = normaliseIsbns(record.isbn_10, record.isbn_13)
+  const isbns = [...isbn10, ...isbn13]
+
+  await query(client, 'DELETE FROM edition_isbns WHERE edition_key = $1 AND NOT (isbn = ANY($2::text[]))', [
+    record.key,
+    isbns,
+  ])
+  await query(
+    client,
+    `
+      INSERT INTO edition_isbns (edition_key, isbn)
+      SELECT $1, unnest($2::text[])
+      ON CONFLICT (edition_key, isbn) DO NOTHING
+    `,
+    [record.key, isbns],
+  )
+}
+
+/**
+ * Replace the names of an author, keeping those of authors merged into it
+ * Goodreads pen names can't be added, as goodreads_authors only maps their IDs to OL authors without any names
+ */
+async function saveAuthorAliases(client: PoolClient, record: Record): Promise<void> {
+  const names: [string | undefined, string][] = [
+    [record.name, 'name'],
+    [record.personal_name, 'personal_name'],
+    [record.fuller_name, 'fuller_name'],
+    ...(Array.isArray(record.alternate_names) ? record.alternate_names : []).map((name): [string, string] => [
+      name,
+      'alternate_names',
+    ]),
+  ]
+
+  // The first source of each name wins, as it's the primary key
+  const aliases = new Map<string, string>()
+  names.forEach(([name, source]) => {
+    const alias = typeof name === 'string' ? name.trim() : ''
+    if (alias && !aliases.has(alias)) aliases.set(alias, source)
+  })
+
+  await query(
+    client,
+    `DELETE FROM author_aliases WHERE author_key = $1 AND source <> 'merged' AND NOT (alias = ANY($2::text[]))`,
+    [record.key, [...aliases.keys()]],
+  )
+  await query(
+    client,
+    `
+      INSERT INTO author_aliases (author_key, alias, source)
+      SELECT $1, unnest($2::text[]), unnest($3::text[])
+      ON CONFLICT (author_key, alias) DO UPDATE SET source = EXCLUDED.source
+    `,
+    [record.key, [...aliases.keys()], [...aliases.values()]],
+  )
+}
+
+/** Replace the authors of a work so it appears in the bibliography of each of them */
+async function saveAuthorWorks(client: PoolClient, record: Record): Promise<void> {
+  const { authors } = parseWorkAuthors(Array.isArray(record.authors) ? record.authors : [])
+  const authorKeys = [...new Set(authors)]
+
+  await query(client, 'DELETE FROM author_works WHERE work_key = $1 AND NOT (author_key = ANY($2::text[]))', [
+    record.key,
+    authorKeys,
+  ])
+  await query(
+    client,
+    `
+      INSERT INTO author_works (author_key, work_key)
+      SELECT unnest($2::text[]), $1
+      ON CONFLICT (author_key, work_key) DO NOTHING
+    `,
+    [record.key, authorKeys],
+  )
+}
+
+/**
+ * Point the authors of a work, or the works of an edition, at the records they were merged into
+ * OL doesn't always update records when others are merged, and lookups such as the primary author use the JSON
+ */
+async function followRedirects(client: PoolClient, record: Record): Promise<Record> {
+  if (record.type.key === '/type/work' && Array.isArray(record.authors)) {
+    const redirects = await getRedirects(
+      client,
+      'authors',
+      record.authors.map((entry) => entry?.author?.key),
+    )
+
+    return {
+      ...record,
+      authors: record.authors.map((entry) => {
+        const location = entry?.author?.key && redirects.get(entry.author.key)
+        return location ? { ...entry, author: { ...entry.author, key: location } } : entry
+      }),
+    }
+  }
+
+  if (record.type.key === '/type/edition' && Array.isArray(record.works)) {
+    const redirects = await getRedirects(
+      client,
+      'works',
+      record.works.map((entry) => entry?.key),
+    )
+
+    return {
+      ...record,
+      works: record.works.map((entry) => {
+        const location = entry?.key && redirects.get(entry.key)
+        return location ? { ...entry, key: location } : entry
+      }),
+    }
+  }
+
+  return record
+}
+
+/** Where each of the given keys redirects to, for those which have been merged */
+async function getRedirects(
+  client: PoolClient,
+  table: 'authors' | 'works',
+  keys: (string | undefined)[],
+): Promise<Map<string, string>> {
+  const res = await query(
+    client,
+    `SELECT key, data->>'location' AS location FROM ${table} WHERE key = ANY($1::text[]) AND type = '/type/redirect'`,
+    [keys.filter((key): key is string => typeof key === 'string')],
+  )
+
+  return new Map(res.rows.map((row) => [row.key as string, row.location as string]))
+}
+
+/**
+ * Mark the cached responses of authors which include a record as needing rendering again
+ * This runs before the record is saved, so covers the authors it belonged to as well as those it's about to belong to
+ * The version is always bumped, so a response rendered while this was changing isn't saved as fresh
+ */
+async function markCacheStale(client: PoolClient, table: string, record: Record): Promise<void> {
+  const keys = [record.key, record.location].filter((key) => key !== undefined)
+
+  // Authors of a work, or the work of an edition, after the save
+  const related =
+    table === 'works'
+      ? parseWorkAuthors(Array.isArray(record.authors) ? record.authors : []).authors
+      : table === 'editions'
+        ? (record.works ?? []).map((work) => work?.key).filter((key): key is string => typeof key === 'string')
+        : []
+
+  // Author responses include their works, and the editions of those works
+  const authors =
+    table === 'authors'
+      ? `SELECT unnest($1::text[] || $2::text[])`
+      : table === 'works'
+        ? `
+          SELECT author_key FROM author_works WHERE work_key = ANY($1::text[])
+          UNION SELECT unnest($2::text[])
+        `
+        : `
+          SELECT author_key
+          FROM author_works
+          WHERE work_key IN (SELECT work_key FROM editions WHERE key = ANY($1::text[]))
+            OR work_key = ANY($2::text[])
+        `
+
+  await query(
+    client,
+    `
+      UPDATE cache SET stale = true, stale_version = stale_version + 1
+      WHERE type = '/type/author' AND key IN (${authors})
+    `,
+    [keys, related],
+  )
+}
+
+/** Move everything referencing a merged record over to the record it now redirects to */
+async function repointModel(client: PoolClient, table: string, from: string, to: string): Promise<void> {
+  if (table === 'authors') {
+    // The primary author of a work comes from its JSON, so that needs to change too
+    await query(
+      client,
+      `
+        UPDATE works SET data = jsonb_set(data, '{authors}', COALESCE((
+          SELECT jsonb_agg(
+            CASE WHEN entry->'author'->>'key' = $1 THEN jsonb_set(entry, '{author,key}', to_jsonb($2::text)) ELSE entry END
+            ORDER BY i
+          )
+          FROM jsonb_array_elements(data->'authors') WITH ORDINALITY AS entries(entry, i)
+        ), '[]'::jsonb)
+        WHERE key IN (SELECT work_key FROM author_works WHERE author_key = $1)
+          AND jsonb_typeof(data->'authors') = 'array'
+      `,
+      [from, to],
+    )
+    await query(
+      client,
+      `
+        INSERT INTO author_works (author_key, work_key)
+        SELECT $2, work_key FROM author_works WHERE author_key = $1
+        ON CONFLICT (author_key, work_key) DO NOTHING
+      `,
+      [from, to],
+    )
+    await query(client, 'DELETE FROM author_works WHERE author_key = $1', [from])
+    await query(client, 'UPDATE goodreads_authors SET ol = $2 WHERE ol = $1', [from, to])
+
+    // Merged authors are often pen names or other spellings, which should still find the author
+    await query(
+      client,
+      `
+        INSERT INTO author_aliases (author_key, alias, source)
+        SELECT $2, alias, 'merged' FROM author_aliases WHERE author_key = $1
+        ON CONFLICT (author_key, alias) DO NOTHING
+      `,
+      [from, to],
+    )
+    await query(client, 'DELETE FROM author_aliases WHERE author_key = $1', [from])
+  } else if (table === 'works') {
+    await query(
+      client,
+      `
+        INSERT INTO author_works (author_key, work_key)
+        SELECT author_key, $2 FROM author_works WHERE work_key = $1
+        ON CONFLICT (author_key, work_key) DO NOTHING
+      `,
+      [from, to],
+    )
+    await query(client, 'DELETE FROM author_works WHERE work_key = $1', [from])
+    // Editions are matched to works by their JSON as well as the column
+    await query(
+      client,
+      `
+        UPDATE editions SET work_key = $2, data = jsonb_set(data, '{works}', COALESCE((
+          SELECT jsonb_agg(
+            CASE WHEN entry->>'key' = $1 THEN jsonb_set(entry, '{key}', to_jsonb($2::text)) ELSE entry END
+            ORDER BY i
+          )
+          FROM jsonb_array_elements(data->'works') WITH ORDINALITY AS entries(entry, i)
+        ), '[]'::jsonb)
+        WHERE work_key = $1 AND jsonb_typeof(data->'works') = 'array'
+      `,
+      [from, to],
+    )
+    await query(client, 'UPDATE editions SET work_key = $2 WHERE work_key = $1', [from, to])
+    await query(client, 'UPDATE ratings SET work_key = $2 WHERE work_key = $1', [from, to])
+    await query(client, 'UPDATE goodreads_works SET work_ol = $2 WHERE work_ol = $1', [from, to])
+  } else if (table === 'editions') {
+    await query(
+      client,
+      `
+        INSERT INTO edition_isbns (edition_key, isbn)
+        SELECT $2, isbn FROM edition_isbns WHERE edition_key = $1
+        ON CONFLICT (edition_key, isbn) DO NOTHING
+      `,
+      [from, to],
+    )
+    await query(client, 'DELETE FROM edition_isbns WHERE edition_key = $1', [from])
+    await query(client, 'UPDATE ratings SET edition_key = $2 WHERE edition_key = $1', [from, to])
+    await query(client, 'UPDATE goodreads_editions SET ol = $2 WHERE ol = $1', [from, to])
+  }
+}
+
+/** Remove a deleted record from the lookup tables, the record itself is kept */
+async function unlinkModel(client: PoolClient, table: string, key: string): Promise<void> {
+  if (table === 'authors') {
+    await query(client, 'DELETE FROM author_works WHERE author_key = $1', [key])
+    await query(client, 'DELETE FROM author_aliases WHERE author_key = $1', [key])
+  } else if (table === 'works') {
+    await query(client, 'DELETE FROM author_works WHERE work_key = $1', [key])
+  } else if (table === 'editions') {
+    await query(client, 'DELETE FROM edition_isbns WHERE edition_key = $1', [key])
+  }
+}
+
+/** Validates ISBNs, converting between ISBN-10 and ISBN-13 so both are always present where possible */
+function normaliseIsbns(isbn10: unknown, isbn13: unknown): { isbn10: string[]; isbn13: string[] } {
+  const isbn10List: string[] = Array.isArray(isbn10) ? isbn10 : []
+  const isbn13List: string[] = Array.isArray(isbn13) ? isbn13 : []
+
+  const validIsbn10Set = new Set<string>()
+  const validIsbn13Set = new Set<string>()
+
+  isbn10List.forEach((isbn: string) => {
+    const parsedIsbn = ISBN.parse(isbn)
+    if (parsedIsbn && parsedIsbn.isIsbn10 && parsedIsbn.isbn10 && parsedIsbn.isValid) {
+      validIsbn10Set.add(parsedIsbn.isbn10)
+      const converted = ISBN.asIsbn13(parsedIsbn.isbn10)
+      if (converted) validIsbn13Set.add(converted)
+    }
+  })
+  isbn13List.forEach((isbn: string) => {
+    const parsedIsbn = ISBN.parse(isbn)
+    if (parsedIsbn && parsedIsbn.isIsbn13 && parsedIsbn.isbn13 && parsedIsbn.isValid) {
+      validIsbn13Set.add(parsedIsbn.isbn13)
+      const converted = ISBN.asIsbn10(parsedIsbn.isbn13)
+      if (converted) validIsbn10Set.add(converted)
+    }
+  })
+
+  return { isbn10: Array.from(validIsbn10Set), isbn13: Array.from(validIsbn13Set) }
+}
+
+/** Splits the author entries of a work into its actual authors, and everyone credited along with their role */
+function parseWorkAuthors(entries: any[]): {
+  authors: string[]
+  contributors: { type: string; key: string; role?: string }[]
+} {
+  const contributors: { type: string; key: string; role?: string }[] = []
+
+  // Entries look like { author: { key }, type: { key: '/type/author_role' }, role?: 'Translator' }
+  entries.forEach((author: { author?: { key?: string } | string; type?: { key?: string } | string; role?: string }) => {
+    const key = typeof author?.author === 'string' ? author.author : author?.author?.key
+    if (!key) return
+
+    contributors.push({
+      type: (typeof author.type === 'string' ? author.type : author.type?.key) ?? '/type/author_role',
+      key: key,
+      role: author.role?.trim() || undefined,
+    })
+  })
+
+  const authors = contributors.filter(
+    (contributor) =>
+      contributor.type === '/type/author_role' && (!contributor.role || /author|writ/i.test(contributor.role)),
+  )
+
+  // If everyone has a role e.g. an anthology editor, treat them as the authors
+  return {
+    authors: (authors.length
+      ? authors
+      : contributors.filter((contributor) => contributor.type === '/type/author_role')
+    ).map((contributor) => contributor.key),
+    contributors,
+  }
+}
+
+/** Cached responses are used until a record they depend on changes, or they're older than the TTL bound to the placeholder */
+function freshCache(ttl: string): string {
+  return `NOT stale AND (${ttl}::integer = 0 OR last_modified > now() - make_interval(secs => ${ttl}::integer))`
+}
+
+function authorLoader() {
+  return getLoader('authors', (keys) => loadModels<Author>('SELECT * FROM authors WHERE key = ANY($1::text[])', keys))
+}
+
+/** Load rows for a batch of keys, processing each into a model */
+async function loadModels<T>(sql: string, keys: string[], keyColumn: string = 'key'): Promise<Map<string, T>> {
+  const res = await query(db, sql, [keys])
+
+  // Processed together so any lookups they need are batched too
+  const models = await Promise.all(res.rows.map((row) => processModel(row)))
+
+  return new Map(
+    res.rows.flatMap((row, i) => (models[i] ? [[row[keyColumn] as string, models[i] as unknown as T] as const] : [])),
+  )
+}
+
+/** Load a batch of Goodreads -> OL mappings, the Goodreads IDs may be numbers in the database */
+async function loadMapping(sql: string, ids: string[]): Promise<Map<string, string>> {
+  return query(db, sql, [ids]).then((res) => new Map(res.rows.map((row) => [String(row.id), row.key as string])))
+}
+
+/** Parses an edition contribution such as "Translated by Jane Doe" or "Jane Doe (Illustrator)" */
+function parseContribution(contribution: string): { role: string; name: string }[] {
+  if (typeof contribution !== 'string') return []
+
+  const text = contribution.trim().replace(/[.;]+$/, '')
+
+  const groups = [
+    // Translated by Jane Doe
+    /^(?<role>.+?)\s+by\s+(?<names>.+)$/i,
+    // Jane Doe (Translator)
+    /^(?<names>.+?)\s*\((?<role>[^)]+)\)$/,
+    // Translator: Jane Doe
+    /^(?<role>[^:]+):\s*(?<names>.+)$/,
+    // Jane Doe, translator
+    /^(?<names>.+),\s*(?<role>\p{Ll}[\p{L}\s]*)$/u,
+  ]
+    .map((pattern) => text.match(pattern)?.groups)
+    .find((groups) => groups !== undefined)
+
+  if (!groups) return []
+
+  // Multiple people can share the same credit
+  return groups.names
+    .split(/\s*(?:;|\s&\s|\sand\s)\s*/)
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0)
+    .map((name) => ({ role: groups.role.trim(), name }))
 }
 
 function toCamelCase(str: string): string {
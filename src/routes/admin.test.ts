@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import type { IRequest } from 'itty-router'
+import config from '../config'
+import { authenticate } from './admin'
+import { Forbidden, Unauthorized } from 'fejl'
+
+const { token } = config.admin
+
+afterEach(() => {
+  config.admin.token = token
+})
+
+function withToken(authorization?: string): IRequest {
+  const headers = new Headers(authorization ? { Authorization: authorization } : {})
+  return { headers } as IRequest
+}
+
+describe('authenticate', () => {
+  test('is forbidden when no token is set', () => {
+    config.admin.token = ''
+
+    expect(() => authenticate(withToken('Bearer '))).toThrow(Forbidden)
+    expect(() => authenticate(withToken())).toThrow(Forbidden)
+  })
+
+  test('rejects requests without the token', () => {
+    config.admin.token = 'secret'
+
+    expect(() => authenticate(withToken())).toThrow(Unauthorized)
+  })
+
+  test('rejects the wrong token', () => {
+    config.admin.token = 'secret'
+
+    expect(() => authenticate(withToken('Bearer wrong'))).toThrow(Unauthorized)
+    expect(() => authenticate(withToken('Bearer secret2'))).toThrow(Unauthorized)
+  })
+
+  test('accepts the token', () => {
+    config.admin.token = 'secret'
+
+    expect(() => authenticate(withToken('Bearer secret'))).not.toThrow()
+    expect(() => authenticate(withToken('bearer  secret'))).not.toThrow()
+  })
+})
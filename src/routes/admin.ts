@@ -0,0 +1,58 @@
+import type { IRequest } from 'itty-router'
+import { BadRequest, Forbidden, NotFound, Unauthorized } from 'fejl'
+import { timingSafeEqual } from 'node:crypto'
+import config from '../config'
+import * as jobs from '../jobs'
+
+/** Middleware which rejects any request without the admin token */
+export function authenticate(req: IRequest): void {
+  if (!config.admin.token) {
+    throw new Forbidden('Admin API is disabled, set OLP_ADMIN_TOKEN to enable it')
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? ''
+  const expected = new TextEncoder().encode(config.admin.token)
+  const actual = new TextEncoder().encode(token)
+
+  // Constant time comparison so the token can't be guessed by timing responses
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new Unauthorized('Invalid admin token')
+  }
+}
+
+/** List recent jobs */
+export async function listJobs(): Promise<Response> {
+  return json(await jobs.getJobs())
+}
+
+/** Start a new job of the given type */
+export async function startJob(type: string): Promise<Response> {
+  if (!jobs.JOB_TYPES.includes(type as jobs.JobType)) {
+    throw new BadRequest(`Unknown job type: ${type}, expected one of ${jobs.JOB_TYPES.join(', ')}`)
+  }
+
+  return json(await jobs.startJob(type as jobs.JobType), 202)
+}
+
+/** Get a single job including its progress */
+export async function getJob(id: string): Promise<Response> {
+  const job = await jobs.getJob(id)
+
+  if (!job) {
+    throw new NotFound(`Job not found: ${id}`)
+  }
+
+  return json(job)
+}
+
+/** Cancel a running job */
+export async function cancelJob(id: string): Promise<Response> {
+  return json(await jobs.cancelJob(id))
+}
+
+function json(data: any, status: number = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
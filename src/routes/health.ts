@@ -0,0 +1,21 @@
+import db, { query } from '../database'
+
+// Milliseconds to wait for the database, so a busy pool fails the check rather than hanging it
+const TIMEOUT = 2000
+
+/** Liveness: the process is up and can reach the database */
+export default async function health(): Promise<Response> {
+  let timer: Timer | undefined
+
+  const database = await Promise.race([
+    query(db, 'SELECT 1').then(() => true),
+    new Promise<boolean>((resolve) => (timer = setTimeout(() => resolve(false), TIMEOUT))),
+  ])
+    .catch(() => false)
+    .finally(() => clearTimeout(timer))
+
+  return new Response(JSON.stringify({ status: database ? 'ok' : 'error', database }), {
+    status: database ? 200 : 503,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
@@ -0,0 +1,41 @@
+import * as metrics from '../metrics'
+import * as model from '../model'
+
+metrics.define('update_queue_keys', 'gauge', 'Number of keys waiting to be processed by the update task')
+metrics.define('update_started_timestamp_seconds', 'gauge', 'When the update task last started')
+metrics.define('update_finished_timestamp_seconds', 'gauge', 'When the update task last finished')
+metrics.define('update_keys_timestamp_seconds', 'gauge', 'Time up to which changed keys have been fetched from OL')
+metrics.define('update_running', 'gauge', 'Whether the update task is currently running')
+metrics.define('update_failed', 'gauge', 'Whether the last update task failed')
+
+export default async function metricsRoute(): Promise<Response> {
+  const [snapshot, counts, started, finished, keysTime, error] = await Promise.all([
+    metrics.collect(),
+    model.getUnprocessedKeyCounts(),
+    model.getStore('update_started', false),
+    model.getStore('update_finished', false),
+    model.getStore('update_keys_time', false),
+    model.getStore('update_error', false),
+  ])
+
+  // Update progress lives in the database, so is the same for every worker
+  const gauges: { [series: string]: number } = {
+    [metrics.series('update_queue_keys', { type: 'author' })]: counts.authors,
+    [metrics.series('update_queue_keys', { type: 'work' })]: counts.works,
+    [metrics.series('update_queue_keys', { type: 'edition' })]: counts.editions,
+    update_started_timestamp_seconds: toSeconds(started),
+    update_finished_timestamp_seconds: toSeconds(finished),
+    update_keys_timestamp_seconds: toSeconds(keysTime),
+    update_running: started && !finished ? 1 : 0,
+    update_failed: error ? 1 : 0,
+  }
+
+  return new Response(metrics.render(snapshot, gauges), {
+    headers: { 'Content-Type': 'text/plain; version=0.0.4' },
+  })
+}
+
+function toSeconds(date: string | null): number {
+  const time = date ? new Date(date).getTime() : NaN
+  return isNaN(time) ? 0 : time / 1000
+}
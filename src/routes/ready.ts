@@ -0,0 +1,31 @@
+import db from '../database'
+import { getPendingMigrations } from '../migrations'
+import * as model from '../model'
+
+/** Readiness: the database is fully set up and there's capacity to serve requests */
+export default async function ready(): Promise<Response> {
+  const problems: string[] = []
+
+  try {
+    const [missingTables, pendingMigrations] = await Promise.all([model.getMissingTables(), getPendingMigrations()])
+
+    if (missingTables.ol.length || missingTables.mapping.length) {
+      problems.push(`Missing tables: ${[...missingTables.ol, ...missingTables.mapping].join(', ')}`)
+    }
+    if (pendingMigrations.length) {
+      problems.push(`Pending migrations: ${pendingMigrations.map((migration) => migration.name).join(', ')}`)
+    }
+  } catch (error) {
+    problems.push(`Database unavailable: ${(error as Error).message}`)
+  }
+
+  // Every connection is in use and requests are queueing for one
+  if (db.waitingCount > 0 && db.totalCount >= (db.options.max ?? 0)) {
+    problems.push(`Connection pool exhausted with ${db.waitingCount} waiting`)
+  }
+
+  return new Response(JSON.stringify({ status: problems.length ? 'unavailable' : 'ok', problems }), {
+    status: problems.length ? 503 : 200,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
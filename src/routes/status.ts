@@ -0,0 +1,47 @@
+import * as model from '../model'
+
+/** State of the update task, so a stuck or failing updater can be detected */
+export default async function status(): Promise<Response> {
+  const [keysTime, keysStartTime, started, finished, error, keysError, queue, lock] = await Promise.all([
+    model.getStore('update_keys_time', false),
+    model.getStore('update_keys_start_time', false),
+    model.getStore('update_started', false),
+    model.getStore('update_finished', false),
+    model.getStore('update_error', false),
+    model.getStore('update_keys_error', false),
+    model.getUnprocessedKeyCounts(),
+    model.getStore('lock_update', false),
+  ])
+
+  const now = Date.now()
+
+  // A failed update never finishes, but has an error instead
+  const running = !!started && !finished && !error
+
+  return new Response(
+    JSON.stringify({
+      update: {
+        running,
+        started,
+        finished,
+        error,
+        // Seconds since the last update started
+        runningFor: running ? Math.round((now - new Date(started).getTime()) / 1000) : null,
+        // Which process holds the update lock, including when it last checked in
+        lock,
+      },
+      keys: {
+        // Changes are fetched from OL up to this time
+        time: keysTime,
+        startTime: keysStartTime,
+        error: keysError,
+        // Seconds the records are behind OL, once all the queued keys have been processed
+        lag: keysTime ? Math.round((now - new Date(keysTime).getTime()) / 1000) : null,
+      },
+      queue,
+    }),
+    {
+      headers: { 'Content-Type': 'application/json' },
+    },
+  )
+}
@@ -3,29 +3,41 @@ import { BadRequest, BaseError as FejlError } from 'fejl'
 import { AutoRouter } from 'itty-router'
 import cluster from 'node:cluster'
 import os from 'os'
+import { cached, cacheKey } from './bookinfo/cache'
+import { parseEditionOptions } from './bookinfo/editions'
 import bookInfoAuthor from './bookinfo/routes/author'
 import bookInfoBulk from './bookinfo/routes/bulk'
 import bookInfoChanged from './bookinfo/routes/changed'
 import bookInfoEdition from './bookinfo/routes/edition'
 import bookInfoSearch from './bookinfo/routes/search'
+import bookInfoSeries from './bookinfo/routes/series'
 import bookInfoWork from './bookinfo/routes/work'
 import config from './config'
-import db from './database'
+import { getContext, runWithContext, type RequestContext } from './context'
+import { startJob } from './jobs'
+import * as log from './log'
+import * as metrics from './metrics'
+import { getPendingMigrations } from './migrations'
+import * as model from './model'
+import { authenticate, cancelJob, getJob, listJobs, startJob as startJobRoute } from './routes/admin'
+import healthRoute from './routes/health'
+import metricsRoute from './routes/metrics'
+import readyRoute from './routes/ready'
+import statusRoute from './routes/status'
 
-const tables = await db
-  .query(`SELECT table_name FROM information_schema.tables WHERE table_schema = 'public'`)
-  .then((res) => res.rows.map((row) => row.table_name))
+// Migrations create the OL tables on a fresh install, so check them first
+if ((await getPendingMigrations()).length) {
+  throw new Error('Database has pending migrations, please run `bun run migrate` first')
+}
+
+const missingTables = await model.getMissingTables()
 
-if (!['authors', 'editions', 'edition_isbns', 'works'].every((table) => tables.includes(table))) {
+if (missingTables.ol.length) {
   throw new Error(
     'Missing required tables in database, please install Open Library database first: https://github.com/LibrariesHacked/openlibrary-search',
   )
 }
-if (
-  !['goodreads', 'goodreads_authors', 'goodreads_series', 'goodreads_works', 'ratings', 'store'].every((table) =>
-    tables.includes(table),
-  )
-) {
+if (missingTables.mapping.length) {
   throw new Error('Missing mapping tables, please install the mapping first: https://github.com/santarrsgrotto/mapping')
 }
 
@@ -47,68 +59,148 @@ if (clusterMode && mainProcess) {
     }
   })
 
+  metrics.setupPrimary()
+
   process.on('SIGINT', () => kill())
   process.on('SIGTERM', () => kill())
 } else {
+  metrics.setupWorker()
+
   const server = Bun.serve({
     hostname: config.hostname,
     port: config.port,
     reusePort: true,
     idleTimeout: 30,
     async fetch(req) {
-      console.log(`[${new Date().toISOString()}] Incoming request:`, req.url)
-
-      const router = AutoRouter({
-        catch(err) {
-          if (!(err instanceof FejlError)) console.error(err)
-          const message = err instanceof FejlError ? err.message : 'Internal Server Error'
-          const status = err instanceof FejlError ? err.status : 500
-
-          return new Response(JSON.stringify({ message }), {
-            status,
-            headers: { 'Content-Type': 'application/json' },
-          })
-        },
-      })
-
-      router.get('/bookinfo/v1/author/changed', async ({ params: { since } }) => bookInfoChanged(since))
-      router.get('/bookinfo/v1/author/:id', async ({ params: { id }, query }) =>
-        bookInfoAuthor(id, (query.edition as string | null) ?? null),
-      )
-      router.get('/bookinfo/v1/book/:id', async ({ params: { id } }) => bookInfoEdition(id))
-      router.get('/bookinfo/v1/work/:id', async ({ params: { id } }) => bookInfoWork(id))
-      router.post('/bookinfo/v1/book/bulk', async (req) => req.json().then(bookInfoBulk))
-
-      router.get('/bookinfo/v1/search', async ({ query }) => {
-        BadRequest.assert(
-          typeof query.q === 'string' && query.q.length > 0,
-          'Query (`q`) must be defined in the query parameters a single time as a non-empty string',
-        )
-        return bookInfoSearch(query.q)
-      })
-
-      // Internal route
-      router.get('/tasks/cache', async () => {
-        if (['127.0.0.1', '::1'].includes(server.requestIP(req)?.address ?? '')) {
-          const response = new Response()
-          cache()
-          return response
-        }
-      })
-
-      // Internal route
-      router.get('/tasks/update', async () => {
-        if (['127.0.0.1', '::1'].includes(server.requestIP(req)?.address ?? '')) {
-          const response = new Response()
-          update()
-          return response
-        }
-      })
-
-      return router.fetch(req)
+      return runWithContext(() => handle(req))
     },
   })
 
+  async function handle(req: Request): Promise<Response> {
+    const start = performance.now()
+
+    const router = AutoRouter({
+      catch(err) {
+        if (!(err instanceof FejlError)) log.error('Unhandled error', err, { url: req.url })
+        const message = err instanceof FejlError ? err.message : 'Internal Server Error'
+        const status = err instanceof FejlError ? err.status : 500
+
+        return new Response(JSON.stringify({ message }), {
+          status,
+          headers: { 'Content-Type': 'application/json' },
+        })
+      },
+    })
+
+    // Overrides of which editions to return, which also need to be part of the cache key
+    router.all('/bookinfo/*', (req) => {
+      getContext()!.editionOptions = parseEditionOptions(req.query, req.headers.get('accept-language'))
+    })
+
+    router.get('/bookinfo/v1/author/changed', async ({ params: { since } }) => bookInfoChanged(since))
+    router.get('/bookinfo/v1/author/:id', async (req) => {
+      const edition = (req.query.edition as string | null) ?? null
+      const page = getPage(req.query)
+
+      return cached(
+        req,
+        cacheKey(`author/${req.params.id}`, { edition, ...page, ...getContext()!.editionOptions }),
+        () => bookInfoAuthor(req.params.id, edition, undefined, page),
+      )
+    })
+    router.get('/bookinfo/v1/book/:id', async ({ params: { id } }) => bookInfoEdition(id))
+    router.get('/bookinfo/v1/series/:id', async (req) =>
+      cached(req, cacheKey(`series/${req.params.id}`, { ...getContext()!.editionOptions }), () =>
+        bookInfoSeries(req.params.id),
+      ),
+    )
+    router.get('/bookinfo/v1/work/:id', async (req) =>
+      cached(req, cacheKey(`work/${req.params.id}`, { ...getContext()!.editionOptions }), () =>
+        bookInfoWork(req.params.id),
+      ),
+    )
+    router.post('/bookinfo/v1/book/bulk', async (req) => {
+      const editionIds = await req.json()
+      return cached(req, cacheKey('bulk', { ids: editionIds, ...getContext()!.editionOptions }), () =>
+        bookInfoBulk(editionIds),
+      )
+    })
+
+    router.get('/bookinfo/v1/search', async (req) => {
+      const query = req.query
+      BadRequest.assert(
+        typeof query.q === 'string' && query.q.length > 0,
+        'Query (`q`) must be defined in the query parameters a single time as a non-empty string',
+      )
+      BadRequest.assert(
+        query.cursor === undefined || typeof query.cursor === 'string',
+        'Cursor (`cursor`) must only be given once',
+      )
+      BadRequest.assert(
+        query.cursor === undefined || getPage(query) === null,
+        "Cursor (`cursor`) already includes the page, so `offset`, `page`, and `limit` can't be given too",
+      )
+
+      const q = query.q as string
+      const page = getPage(query, config.search.maxPageSize)
+      const cursor = (query.cursor as string | undefined) ?? null
+
+      // Explanations are for tuning the ranking, so always reflect the current weights
+      if (query.debug === '1') {
+        return bookInfoSearch(q, { debug: true, page, cursor })
+      }
+
+      return cached(req, cacheKey('search', { q, ...page, cursor, ...getContext()!.editionOptions }), () =>
+        bookInfoSearch(q, { page, cursor }),
+      )
+    })
+
+    router.all('/admin/*', authenticate)
+    router.get('/admin/jobs', async () => listJobs())
+    router.post('/admin/jobs/:type', async ({ params: { type } }) => startJobRoute(type))
+    router.get('/admin/jobs/:id', async ({ params: { id } }) => getJob(id))
+    router.delete('/admin/jobs/:id', async ({ params: { id } }) => cancelJob(id))
+
+    router.get('/health', async () => healthRoute())
+    router.get('/metrics', async () => metricsRoute())
+    router.get('/ready', async () => readyRoute())
+    router.get('/status', async () => statusRoute())
+
+    const response: Response = await router.fetch(req)
+    const context = getContext()!
+
+    // Streamed responses are still being rendered, so they're only recorded once the body has been sent
+    if (!response.body) {
+      logRequest(req, response, start, context)
+      return response
+    }
+
+    return new Response(
+      onClose(response.body, () => logRequest(req, response, start, context)),
+      response,
+    )
+  }
+
+  /** Record the metrics and access log of a finished request */
+  function logRequest(req: Request, response: Response, start: number, context: RequestContext): void {
+    const route: string = (req as Request & { route?: string }).route ?? 'unmatched'
+    const duration = performance.now() - start
+
+    metrics.recordRequest(route, req.method, response.status, duration / 1000, context.dbTime / 1000)
+    if (context.cache) metrics.recordCache(route, context.cache === 'hit')
+
+    log.info('request', {
+      method: req.method,
+      url: req.url,
+      route,
+      status: response.status,
+      duration: Math.round(duration),
+      cache: context.cache ?? null,
+      dbTime: Math.round(context.dbTime),
+      dbQueries: context.dbQueries,
+    })
+  }
+
   if (!clusterMode) {
     process.on('SIGINT', () => kill(server))
     process.on('SIGTERM', () => kill(server))
@@ -116,27 +208,104 @@ if (clusterMode && mainProcess) {
 }
 
 if (mainProcess) {
-  new CronJob(config.update.cron, async () => update(), null, true, 'UTC')
+  new CronJob(
+    config.update.cron,
+    async () => {
+      // Skipped if the previous update is still running
+      await startJob('update', !clusterMode).catch((error) => log.warn(`Update not started: ${error.message}`))
+
+      // Render cached responses made stale by previous updates again, skipped if that's still running too
+      const stale = await model
+        .getStaleCacheKeys('/type/author')
+        .catch((error) => log.error('Error checking for stale responses', error))
+
+      if (stale?.length) {
+        await startJob('cache', !clusterMode).catch((error) => log.warn(`Cache not started: ${error.message}`))
+      }
+
+      // Shared responses are only looked up by key, so expired ones would otherwise never be removed
+      if (config.responses.shared) {
+        await model
+          .deleteExpiredCache('response', config.responses.ttl)
+          .catch((error) => log.error('Error removing expired responses', error))
+      }
+    },
+    null,
+    true,
+    'UTC',
+  )
 
   console.log(`Listening on http://${config.hostname}:${config.port}`)
 }
 
-function kill(server?: any) {
-  if (clusterMode) {
-    workers.forEach((worker) => worker.kill())
-  } else if (server) {
-    server.stop()
+/**
+ * Optional pagination using either offset and limit, or page (starting at 1) and limit
+ * The limit defaults to and is capped at maxLimit, before it's used to find the offset of a page
+ */
+function getPage(
+  query: { [key: string]: string | string[] | undefined },
+  maxLimit: number = config.author.maxPageSize,
+): { offset: number; limit: number } | null {
+  if (query.offset === undefined && query.page === undefined && query.limit === undefined) {
+    return null
+  }
+
+  const limit = Number(query.limit ?? maxLimit)
+  const page = Number(query.page ?? 1)
+
+  if (!Number.isInteger(limit) || limit < 1 || !Number.isInteger(page) || page < 1) {
+    throw new BadRequest('Pagination (`offset`, `page`, and `limit`) must be positive integers')
+  }
+
+  const cappedLimit = Math.min(limit, maxLimit)
+  const offset = query.offset !== undefined ? Number(query.offset) : (page - 1) * cappedLimit
+
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new BadRequest('Pagination (`offset`, `page`, and `limit`) must be positive integers')
   }
+
+  return { offset, limit: cappedLimit }
 }
 
-function cache() {
-  Bun.spawn(['bun', 'run', 'src/tasks/cache.ts'], {
-    stdio: clusterMode ? ['ignore', 'ignore', 'ignore'] : ['inherit', 'inherit', 'inherit'],
+/** Pass a body through, calling back once when it has been fully read, fails, or the client goes away */
+function onClose(body: ReadableStream<Uint8Array>, callback: () => void): ReadableStream<Uint8Array> {
+  const reader = body.getReader()
+  let closed = false
+
+  const close = () => {
+    if (!closed) {
+      closed = true
+      callback()
+    }
+  }
+
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { value, done } = await reader.read()
+
+        if (done) {
+          controller.close()
+          close()
+        } else {
+          controller.enqueue(value)
+        }
+      } catch (error) {
+        controller.error(error)
+        close()
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel(reason)
+      close()
+    },
   })
 }
 
-function update() {
-  Bun.spawn(['bun', 'run', 'src/tasks/update.ts'], {
-    stdio: clusterMode ? ['ignore', 'ignore', 'ignore'] : ['inherit', 'inherit', 'inherit'],
-  })
+function kill(server?: any) {
+  if (clusterMode) {
+    workers.forEach((worker) => worker.kill())
+  } else if (server) {
+    server.stop()
+  }
 }
@@ -1,14 +1,20 @@
 #!/usr/bin/env bun
 
 import bookInfoAuthor from '../bookinfo/routes/author'
+import * as jobs from '../jobs'
+import { withLock } from '../lock'
 import * as model from '../model'
 
 async function cacheAuthors(): Promise<void> {
   try {
-    const authorKeys = await model.getLargeAuthors()
-
-    for (const authorKey of authorKeys) {
-      cacheAuthor(authorKey)
+    // Authors with cached responses which have changed may no longer be large, but still need rendering again
+    const authorKeys = [
+      ...new Set([...(await model.getLargeAuthors()), ...(await model.getStaleCacheKeys('/type/author'))]),
+    ]
+
+    for (const [i, authorKey] of authorKeys.entries()) {
+      await jobs.reportProgress({ total: authorKeys.length, cached: i })
+      await cacheAuthor(authorKey)
     }
   } catch (error) {
     console.log('error', error)
@@ -26,21 +32,32 @@ export async function cacheAuthor(key: string): Promise<void> {
 
   const author = await model.getAuthor(key)
 
-  // This can happen if an author has been merged
+  // This can happen if an author has been merged or deleted
   if (!author) {
+    await model.deleteCache('/type/author', key)
     return
   }
 
   console.log(`Caching author ${key}`)
 
+  // Read before rendering, so changes made while rendering leave it stale
+  const version = await model.getCacheVersion('/type/author', key)
+
   const response = await bookInfoAuthor(key)
   const data = await response.text()
 
-  await model.saveCache('/type/author', key, data)
+  await model.saveCache('/type/author', key, data, version)
 }
 
 if (import.meta.main) {
-  cacheAuthors()
-    .then(() => process.exit(0))
-    .catch(() => process.exit(1))
+  withLock('cache', () => cacheAuthors())
+    .then(async () => {
+      await jobs.finishJob('finished')
+      process.exit(0)
+    })
+    .catch(async (error) => {
+      console.error(error)
+      await jobs.finishJob('failed')
+      process.exit(1)
+    })
 }
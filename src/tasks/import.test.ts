@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, expect, test } from 'bun:test'
+import config from '../config'
+import db from '../database'
+import * as model from '../model'
+import { resetDatabase } from '../testing'
+import { importDumps } from './import'
+import { mkdtemp } from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+
+const modified = { type: '/type/datetime', value: '2024-01-01T12:00:00.000000' }
+
+// Tab separated like the real dumps: type, key, revision, last_modified, JSON
+const authors = [
+  {
+    key: '/authors/OL1A',
+    type: { key: '/type/author' },
+    name: 'Ursula K. Le Guin',
+    revision: 1,
+    last_modified: modified,
+  },
+  'not a dump line',
+  { key: '/authors/OL2A', type: { key: '/type/author' }, name: 'Missing last_modified', revision: 1 },
+  { key: '/authors/OL3A', type: { key: '/type/author' }, name: 'Iain M. Banks', revision: 1, last_modified: modified },
+].map((record) =>
+  typeof record === 'string'
+    ? record
+    : ['/type/author', record.key, record.revision, modified.value, JSON.stringify(record)].join('\t'),
+)
+
+const { batchSize, progressInterval } = config.import
+let file: string
+
+beforeEach(async () => {
+  await resetDatabase()
+
+  file = path.join(await mkdtemp(path.join(os.tmpdir(), 'import-')), 'ol_dump_authors_test.txt.gz')
+  await Bun.write(file, Bun.gzipSync(authors.join('\n')))
+
+  config.import.batchSize = 1
+  config.import.progressInterval = 1
+})
+
+afterEach(() => {
+  Object.assign(config.import, { batchSize, progressInterval })
+})
+
+test('imports the valid lines of a gzipped dump, counting the ones it skips', async () => {
+  await importDumps([file])
+
+  const keys = await db.query('SELECT key FROM authors ORDER BY key').then((res) => res.rows.map((row) => row.key))
+  expect(keys).toEqual(['/authors/OL1A', '/authors/OL3A'])
+
+  expect(await model.getStore('import_authors_progress', false)).toEqual({
+    file: path.basename(file),
+    line: 4,
+    skipped: 2,
+  })
+})
+
+test('resumes from the stored progress', async () => {
+  await model.setStore('import_authors_progress', { file: path.basename(file), line: 2, skipped: 1 }, false)
+
+  await importDumps([file])
+
+  // The first line was imported by the previous run, so isn't imported again
+  const keys = await db.query('SELECT key FROM authors ORDER BY key').then((res) => res.rows.map((row) => row.key))
+  expect(keys).toEqual(['/authors/OL3A'])
+
+  expect(await model.getStore('import_authors_progress', false)).toEqual({
+    file: path.basename(file),
+    line: 4,
+    skipped: 2,
+  })
+})
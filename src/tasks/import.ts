@@ -0,0 +1,144 @@
+#!/usr/bin/env bun
+
+import type { Record } from '../types'
+import config from '../config'
+import * as model from '../model'
+import { createReadStream } from 'node:fs'
+import path from 'node:path'
+import readline from 'node:readline'
+import { createGunzip } from 'node:zlib'
+
+// Dumps must be imported in this order so works can find their authors etc.
+const TYPES = ['authors', 'works', 'editions'] as const
+
+type DumpType = (typeof TYPES)[number]
+
+type Progress = {
+  file: string
+  line: number
+  // Malformed lines, or records without a key, type, or last_modified
+  skipped?: number
+}
+
+/**
+ * Imports the OL monthly data dumps, e.g. ol_dump_authors_latest.txt.gz
+ * Each line is tab separated: type, key, revision, last_modified, JSON
+ */
+export async function importDumps(files: string[]): Promise<void> {
+  const dumps = files
+    .map((file) => ({ file, type: dumpType(file) }))
+    .sort((a, b) => TYPES.indexOf(a.type) - TYPES.indexOf(b.type))
+
+  try {
+    for (const dump of dumps) {
+      await importDump(dump.type, dump.file)
+    }
+  } catch (error) {
+    const err = error as Error
+    throw new Error(`Error importing: ${err.message}`)
+  }
+}
+
+/** Streams a single dump file into the database, resuming from the last saved line */
+async function importDump(type: DumpType, file: string): Promise<void> {
+  const progressKey = `import_${type}_progress`
+  const name = path.basename(file)
+
+  // Only resume if the progress was for the same dump file
+  const progress: Progress | null = await model.getStore(progressKey, false)
+  const resumeLine = progress?.file === name ? progress.line : 0
+  let skipped = progress?.file === name ? (progress.skipped ?? 0) : 0
+
+  if (resumeLine) {
+    console.log(`Resuming ${name} from line ${resumeLine}`)
+  } else {
+    console.log(`Importing ${name}`)
+  }
+
+  const input = createReadStream(file)
+  const lines = readline.createInterface({
+    input: file.endsWith('.gz') ? input.pipe(createGunzip()) : input,
+    crlfDelay: Infinity,
+  })
+
+  let line = 0
+  let savedLine = resumeLine
+  let batch: Record[] = []
+
+  const saveBatch = async () => {
+    await model.saveModels(batch)
+    batch = []
+
+    if (line - savedLine >= config.import.progressInterval) {
+      await model.setStore(progressKey, { file: name, line, skipped } as Progress, false)
+      savedLine = line
+      console.log(`Imported ${line} lines of ${name}, skipped ${skipped}`)
+    }
+  }
+
+  for await (const text of lines) {
+    // Already imported on a previous run
+    if (++line <= resumeLine) continue
+
+    const record = parseLine(text)
+
+    if (!record) {
+      skipped++
+      continue
+    }
+
+    batch.push(record)
+
+    if (batch.length >= config.import.batchSize) {
+      await saveBatch()
+    }
+  }
+
+  await saveBatch()
+  await model.setStore(progressKey, { file: name, line, skipped } as Progress, false)
+
+  console.log(`Finished importing ${line} lines of ${name}, skipped ${skipped} malformed lines`)
+}
+
+/** Parses a dump line into a record, returning null if the line is malformed */
+function parseLine(text: string): Record | null {
+  // The JSON is always the 5th column and never contains raw tabs
+  const json = text.split('\t')[4]
+  if (!json) return null
+
+  try {
+    const record = JSON.parse(json) as Record
+    return record.key && record.type?.key && record.last_modified ? record : null
+  } catch (error) {
+    return null
+  }
+}
+
+/** Works out the dump type from the file name */
+function dumpType(file: string): DumpType {
+  const type = TYPES.find((type) => path.basename(file).includes(type))
+
+  if (!type) {
+    throw new Error(
+      `Unable to tell the dump type of ${file}, expected a file name including one of ${TYPES.join(', ')}`,
+    )
+  }
+
+  return type
+}
+
+if (import.meta.main) {
+  const files = process.argv.slice(2)
+
+  if (!files.length) {
+    console.log('Usage: bun run import <ol_dump_authors.txt.gz> <ol_dump_works.txt.gz> <ol_dump_editions.txt.gz>')
+    process.exit(1)
+  }
+
+  importDumps(files)
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error)
+      process.exit(1)
+    })
+}
@@ -0,0 +1,24 @@
+#!/usr/bin/env bun
+
+import { runMigrations } from '../migrations'
+
+async function migrate(dryRun: boolean): Promise<void> {
+  const applied = await runMigrations(dryRun)
+
+  if (!applied.length) {
+    console.log('Database is up to date')
+  } else if (!dryRun) {
+    console.log(`Applied ${applied.length} migration(s)`)
+  }
+}
+
+if (import.meta.main) {
+  const dryRun = process.argv.includes('--dry-run')
+
+  migrate(dryRun)
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error)
+      process.exit(1)
+    })
+}
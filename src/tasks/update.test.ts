@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, expect, test } from 'bun:test'
+import * as model from '../model'
+import { resetDatabase } from '../testing'
+import type { Record } from '../types'
+import type { Subprocess } from 'bun'
+import path from 'node:path'
+
+const port = 18090
+let mock: Subprocess
+
+beforeAll(async () => {
+  mock = Bun.spawn([process.execPath, 'run', path.join(import.meta.dir, '..', 'mock', 'server.ts')], {
+    env: { ...process.env, OLP_MOCK_PORT: String(port) },
+    stdout: 'ignore',
+  })
+
+  // Wait for the mock to start listening
+  for (let i = 0; i < 50; i++) {
+    const response = await fetch(`http://localhost:${port}/authors/OL23919A.json`).catch(() => null)
+    if (response?.ok) return
+    await Bun.sleep(100)
+  }
+
+  throw new Error('Mock Open Library server did not start')
+})
+
+afterAll(() => {
+  mock.kill()
+})
+
+test('updates the records changed on Open Library since the last update', async () => {
+  await resetDatabase()
+
+  // An author which the mock merges into OL23919A, and a work of theirs which isn't changed
+  await model.saveModels([
+    {
+      key: '/authors/OL1394244A',
+      type: { key: '/type/author' },
+      name: 'Jo Rowling',
+      revision: 2,
+      last_modified: { type: '/type/datetime', value: '2023-01-01T12:00:00.000000' },
+    },
+    {
+      key: '/works/OL1W',
+      type: { key: '/type/work' },
+      title: 'The Casual Vacancy',
+      authors: [{ author: { key: '/authors/OL1394244A' } }],
+      revision: 1,
+      last_modified: { type: '/type/datetime', value: '2023-01-01T12:00:00.000000' },
+    } as Record,
+  ])
+
+  // Only yesterday's changes are fetched, as today's aren't complete yet
+  const twoDaysAgo = new Date()
+  twoDaysAgo.setUTCDate(twoDaysAgo.getUTCDate() - 2)
+  await model.saveDatetime('update_keys_time', twoDaysAgo, true)
+
+  const update = Bun.spawn([process.execPath, 'run', path.join(import.meta.dir, 'update.ts')], {
+    env: { ...process.env, OLP_UPSTREAM_URL: `http://localhost:${port}`, OLP_UPSTREAM_RATE_LIMIT: '100' },
+  })
+  expect(await update.exited).toBe(0)
+
+  expect(await model.getStore('update_finished', false)).not.toBeNull()
+  expect(await model.getStore('update_error', false)).toBeNull()
+  expect(await model.getUnprocessedKeyCounts()).toEqual({ authors: 0, works: 0, editions: 0 })
+
+  const author = await model.getAuthor('/authors/OL23919A')
+  expect(author?.name).toBe('J. K. Rowling')
+
+  // The merged author redirects, and their works are now by the author they were merged into
+  expect((await model.getAuthor('/authors/OL1394244A'))?.key).toBe('/authors/OL23919A')
+  expect((await model.getWork('/works/OL1W'))?.authors).toEqual(['/authors/OL23919A'])
+
+  const works = await model.getAuthorWorks('/authors/OL23919A')
+  expect(works.map((work) => work.key).sort()).toEqual(['/works/OL1W', '/works/OL82563W'])
+
+  const edition = await model.getEdition('/books/OL22856696M')
+  expect(edition?.workKey).toBe('/works/OL82563W')
+}, 30_000)
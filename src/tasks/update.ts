@@ -1,8 +1,10 @@
 #!/usr/bin/env bun
 
-import type { Record } from '../types'
 import config from '../config'
+import * as jobs from '../jobs'
+import { withLock } from '../lock'
 import * as model from '../model'
+import * as upstream from '../upstream'
 
 async function update(): Promise<void> {
   try {
@@ -22,6 +24,7 @@ async function update(): Promise<void> {
 
     await model.saveDatetime('update_started', new Date())
     await model.setStore('update_finished', null)
+    await model.setStore('update_error', null)
     await processKeys('author', unprocessedKeys.authors)
     await processKeys('work', unprocessedKeys.works)
     await processKeys('edition', unprocessedKeys.editions)
@@ -40,7 +43,7 @@ async function update(): Promise<void> {
 
 /** Fetches all the OL IDs of models that need updating since the last update */
 async function fetchKeys(): Promise<{ authors: string[]; works: string[]; editions: string[] }> {
-  const kinds = ['add-book', 'edit-book', 'merge-authors', 'revert', 'update']
+  const kinds = ['add-book', 'edit-book', 'merge-authors', 'revert', 'update', 'delete']
 
   // Keys of authors, works, and editions to look up
   const authorKeys: Set<string> = new Set()
@@ -72,6 +75,8 @@ async function fetchKeys(): Promise<{ authors: string[]; works: string[]; editio
       await addChangedKeys(authorKeys, workKeys, editionKeys, date, kind)
     }
 
+    await jobs.reportProgress({ stage: 'fetching keys', date: date.toISOString() })
+
     // Save keys after each date
     await model.setStore('unprocessed_author_keys', Array.from(authorKeys), false)
     await model.setStore('unprocessed_work_keys', Array.from(workKeys), false)
@@ -113,6 +118,8 @@ async function processKeys(type: string, keys: string[]) {
       remainingKeys = remainingKeys.slice(batch.length)
     }
 
+    await jobs.reportProgress({ stage: `updating ${type}s`, total: keys.length, remaining: remainingKeys.length })
+
     if (delay) {
       await new Promise((resolve) => setTimeout(resolve, delay))
     }
@@ -123,15 +130,13 @@ async function processKeys(type: string, keys: string[]) {
 async function updateModels(keys: string[]): Promise<string[]> {
   const failedKeys: string[] = []
 
+  // Requests are rate limited by the upstream client
   for (const key of keys) {
     try {
       await updateModel(key)
     } catch (error) {
       failedKeys.push(key)
     }
-
-    // 200ms between requests
-    await new Promise((resolve) => setTimeout(resolve, 200))
   }
 
   return failedKeys
@@ -139,19 +144,7 @@ async function updateModels(keys: string[]): Promise<string[]> {
 
 /** Fetch a model from OL and save it */
 async function updateModel(key: string): Promise<boolean> {
-  const response = await fetch(`https://openlibrary.org${key}.json`, {
-    headers: {
-      'User-Agent':
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-    },
-    signal: AbortSignal.timeout(config.update.timeout * 1000),
-  })
-
-  const data: Record | null = response.ok ? await response.json() : null
-
-  if (!response.ok || !data || !data.key) {
-    throw new Error(`Server Error`)
-  }
+  const data = await upstream.getRecord(key)
 
   await model.saveModel(data)
   return true
@@ -165,84 +158,58 @@ async function addChangedKeys(
   date: Date,
   kind: string,
 ): Promise<void> {
-  // Format the date to yyyy/mm/dd
-  const datePath = [
-    date.getFullYear(),
-    String(date.getMonth() + 1).padStart(2, '0'),
-    String(date.getDate()).padStart(2, '0'),
-  ].join('/')
-
   let offset = 0
   let limit = 1000
-  let retries = 0
-  let url: string
 
   // The endpoints are paginated using offset
   while (offset <= 10000) {
-    url = `https://openlibrary.org/recentchanges/${datePath}/${kind}.json?offset=${offset}&limit=${limit}`
+    let data: upstream.Change[]
 
     try {
-      const response = await fetch(url)
-
-      const data: { timestamp: string; changes: { key: string }[] }[] | null = response.ok
-        ? await response.json()
-        : null
-
-      if (!response.ok || !Array.isArray(data)) {
-        const error = new Error(`Server Error`) as Error & { response?: Response }
-        error.response = response
-        throw error
-      }
-
-      retries = 0
-
-      data.forEach((item) => {
-        item.changes.forEach((change: { key: string }) => {
-          if (change.key.startsWith('/authors/')) {
-            authorKeys.add(change.key)
-          } else if (change.key.startsWith('/works/')) {
-            workKeys.add(change.key)
-          } else if (change.key.startsWith('/books/')) {
-            editionKeys.add(change.key)
-          }
-        })
-      })
+      data = await upstream.getRecentChanges(date, kind, offset, limit)
+    } catch (err: unknown) {
+      const error = err as Error
 
-      if (data.length < limit) {
-        break
+      const errorData = {
+        time: new Date().toISOString(),
+        url: error instanceof upstream.UpstreamError ? error.url : null,
+        status: error instanceof upstream.UpstreamError ? error.status : null,
+        error: error instanceof upstream.UpstreamError && error.body ? error.body : error.message,
       }
 
-      offset += 1000
+      await model.setStore('update_keys_error', errorData)
+      throw err
+    }
 
-      // Sleep for 1 second
-      await new Promise((resolve) => setTimeout(resolve, 1000))
-    } catch (err: unknown) {
-      if (++retries > config.update.retries) {
-        const error = err as Error & { response?: Response }
-
-        const errorData = {
-          time: new Date().toISOString(),
-          url: url,
-          status: error.response ? error.response.status : null,
-          error: error.response
-            ? error.response.headers.get('content-type')?.includes('application/json')
-              ? await error.response.json()
-              : await error.response.text()
-            : error.message,
+    data.forEach((item) => {
+      item.changes.forEach((change: { key: string }) => {
+        if (change.key.startsWith('/authors/')) {
+          authorKeys.add(change.key)
+        } else if (change.key.startsWith('/works/')) {
+          workKeys.add(change.key)
+        } else if (change.key.startsWith('/books/')) {
+          editionKeys.add(change.key)
         }
+      })
+    })
 
-        await model.setStore('update_keys_error', errorData)
-        throw err
-      }
-
-      // Sleep for 5 seconds
-      await new Promise((resolve) => setTimeout(resolve, 5 * 1000))
+    if (data.length < limit) {
+      break
     }
+
+    offset += 1000
   }
 }
 
 if (import.meta.main) {
-  update()
-    .then(() => process.exit(0))
-    .catch(() => process.exit(1))
+  withLock('update', () => update())
+    .then(async () => {
+      await jobs.finishJob('finished')
+      process.exit(0)
+    })
+    .catch(async (error) => {
+      console.error(error)
+      await jobs.finishJob('failed')
+      process.exit(1)
+    })
 }
@@ -0,0 +1,158 @@
+import { getContext, runWithContext } from './context'
+import db from './database'
+import * as ids from './ids'
+import { runMigrations } from './migrations'
+import * as model from './model'
+import type { Record } from './types'
+import path from 'node:path'
+
+/** Records served by the mock Open Library server, which are also seeded into the test database */
+export const fixtures = path.join(import.meta.dir, 'mock', 'fixtures')
+
+const modified = { type: '/type/datetime', value: '2024-01-01T12:00:00.000000' }
+
+// Discworld novels in order, with the earliest having the most editions and revisions so it ranks first
+const discworld = [
+  'The Colour of Magic',
+  'The Light Fantastic',
+  'Equal Rites',
+  'Mort',
+  'Sourcery',
+  'Wyrd Sisters',
+  'Pyramids',
+  'Guards! Guards!',
+  'Eric',
+  'Moving Pictures',
+  'Reaper Man',
+  'Witches Abroad',
+  'Small Gods',
+  'Lords and Ladies',
+  'Men at Arms',
+  'Soul Music',
+  'Interesting Times',
+  'Maskerade',
+  'Feet of Clay',
+  'Hogfather',
+]
+
+/**
+ * Empty the database and apply any pending migrations
+ * The Goodreads mapping normally comes from a separate dump, so just the columns which are used are created for it
+ * Tests delete everything, so refuse to run against a database which doesn't look like it's for testing
+ */
+export async function resetDatabase(): Promise<void> {
+  const name: string = await db.query('SELECT current_database() AS name').then((res) => res.rows[0].name)
+
+  if (!name.includes('test')) {
+    throw new Error(`Tests empty the database, so OLP_POSTGRES_CONNECTION_STRING must be for a test one, not ${name}`)
+  }
+
+  await runMigrations()
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS goodreads_authors (id BIGINT PRIMARY KEY, ol TEXT);
+    CREATE TABLE IF NOT EXISTS goodreads_editions (id BIGINT PRIMARY KEY, ol TEXT);
+    CREATE TABLE IF NOT EXISTS goodreads_works (edition_id BIGINT PRIMARY KEY, work_id BIGINT, work_ol TEXT);
+    CREATE TABLE IF NOT EXISTS goodreads_series (series_id INTEGER, work_id BIGINT, position TEXT, title TEXT);
+    CREATE TABLE IF NOT EXISTS ratings (work_key TEXT, edition_key TEXT, rating INTEGER);
+
+    TRUNCATE authors, works, editions, edition_isbns, author_works, author_aliases, cache, store,
+      goodreads_authors, goodreads_editions, goodreads_works, goodreads_series, ratings;
+  `)
+}
+
+/** Empty the database and fill it with a small library covering the cases search and conversion need to handle */
+export async function seedDatabase(): Promise<void> {
+  await resetDatabase()
+
+  const fixture = (name: string): Promise<Record> => Bun.file(path.join(fixtures, name)).json()
+  const records: Record[] = await Promise.all([
+    fixture('authors/OL23919A.json'),
+    fixture('works/OL82563W.json'),
+    fixture('books/OL22856696M.json'),
+  ])
+
+  records.push(
+    record('/authors/OL25712A', 'author', { name: 'Terry Pratchett', alternate_names: ['Terence Pratchett'] }),
+    record('/authors/OL26A', 'author', { name: 'Josh Kirby' }),
+  )
+
+  discworld.forEach((title, i) => {
+    const work = `/works/OL${100 + i}W`
+
+    records.push(
+      record(work, 'work', {
+        title,
+        authors: [{ author: { key: '/authors/OL25712A' } }],
+        first_publish_date: String(1983 + i),
+        revision: discworld.length - i,
+      }),
+    )
+
+    for (let j = 0; j < 5 - (i % 5); j++) {
+      records.push(
+        record(`/books/OL${1000 + i * 10 + j}M`, 'edition', {
+          title,
+          works: [{ key: work }],
+          publishers: ['Corgi'],
+          languages: [{ key: '/languages/eng' }],
+          // Credits are names, one of an author and one which isn't, so each edition has something to look up
+          contributions: ['Cover art by Josh Kirby', `Read by Narrator ${i}`],
+        }),
+      )
+    }
+  })
+
+  // Accents, transliteration, and scripts without spaces between words
+  records.push(
+    record('/authors/OL30A', 'author', { name: 'Charlotte Brontë' }),
+    record('/works/OL300W', 'work', { title: 'Jane Eyre', authors: [{ author: { key: '/authors/OL30A' } }] }),
+    record('/books/OL3000M', 'edition', { title: 'Jane Eyre', works: [{ key: '/works/OL300W' }] }),
+    record('/authors/OL31A', 'author', { name: 'Лев Толстой' }),
+    record('/works/OL310W', 'work', { title: 'Война и мир', authors: [{ author: { key: '/authors/OL31A' } }] }),
+    record('/books/OL3100M', 'edition', { title: 'Война и мир', works: [{ key: '/works/OL310W' }] }),
+    record('/authors/OL32A', 'author', { name: '夏目漱石', alternate_names: ['Natsume Sōseki'] }),
+    record('/works/OL320W', 'work', { title: '吾輩は猫である', authors: [{ author: { key: '/authors/OL32A' } }] }),
+    record('/books/OL3200M', 'edition', { title: '吾輩は猫である', works: [{ key: '/works/OL320W' }] }),
+  )
+
+  await model.saveModels(records)
+
+  await db.query(
+    `INSERT INTO ratings (work_key, edition_key, rating) SELECT '/works/OL82563W', NULL, unnest($1::integer[])`,
+    [[5, 5, 4, 3]],
+  )
+  await db.query(`
+    INSERT INTO goodreads_authors (id, ol) VALUES (1077326, '/authors/OL23919A');
+    INSERT INTO goodreads_works (edition_id, work_id, work_ol)
+    VALUES (3, 4640799, '/works/OL82563W'), (34497, 1, '/works/OL100W'), (34501, 5, '/works/OL104W');
+    INSERT INTO goodreads_series (series_id, work_id, position, title)
+    VALUES (40650, 1, '1', 'Discworld'), (40650, 5, '5', 'Discworld');
+  `)
+}
+
+/** Call a route as if it were a request, returning the parsed response along with how many queries it made */
+export async function request(
+  route: () => Promise<Response>,
+): Promise<{ status: number; headers: Headers; body: any; queries: number }> {
+  return runWithContext(async () => {
+    const response = await route()
+    // Streamed responses query the database as they're read, so read them before counting
+    const text = await response.text()
+
+    return {
+      status: response.status,
+      headers: response.headers,
+      body: text ? JSON.parse(text) : null,
+      queries: getContext()!.dbQueries,
+    }
+  })
+}
+
+/** The Readarr ID of an OL key, as a route would be given it */
+export function readarrId(key: string): string {
+  return String(ids.encodeReadarrId(key))
+}
+
+function record(key: string, type: string, data: { [key: string]: unknown } = {}): Record {
+  return { key, type: { key: `/type/${type}` }, revision: 1, last_modified: modified, ...data }
+}
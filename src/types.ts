@@ -44,12 +44,16 @@ export interface Edition extends Model {
   publishDate?: Date
   publishers?: string[]
   contributions?: string[]
+  // Parsed from contributions, these are names and so not necessarily OL authors
+  contributors?: { role: string; name: string }[]
 
   numberOfPages?: number
   sourceRecords?: string[]
 
   titleNativeLanguage?: string
   languages?: string[]
+  // Title of the original work
+  translationOf?: string
   translatedFrom?: string[]
   physicalFormat?: string
 }
@@ -68,12 +72,22 @@ export interface Record {
   last_modified: { type: string; value: string }
   authors?: { author: { key: string } }[]
   works?: { key?: string }[]
+  isbn_10?: string[]
+  isbn_13?: string[]
+  // Names of an author
+  name?: string
+  personal_name?: string
+  fuller_name?: string
+  alternate_names?: string[]
+  // Where a merged record now redirects to
+  location?: string
 }
 
 export interface Series {
   workId: number
   seriesId: number
-  position: number
+  // Usually a number, but can be fractional (novellas) or a range (omnibuses) e.g. "1-3"
+  position: string | number | null
   title: string
 }
 
@@ -93,6 +107,8 @@ export interface Work extends Model {
   contributors?: {
     type: string
     key: string
+    // Free text set by OL e.g. Translator
+    role?: string
   }[]
 
   // Related URLs
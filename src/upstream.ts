@@ -0,0 +1,123 @@
+import type { Record } from './types'
+import config from './config'
+
+/** A single entry from the recentchanges endpoints */
+export interface Change {
+  timestamp: string
+  changes: { key: string }[]
+}
+
+/** Thrown when upstream responds with an error, including the response body to help debugging */
+export class UpstreamError extends Error {
+  constructor(
+    public url: string,
+    public status: number | null,
+    public body: any = null,
+  ) {
+    super(status ? `Upstream responded with ${status} for ${url}` : `Upstream request failed for ${url}`)
+    this.name = 'UpstreamError'
+  }
+}
+
+// Earliest time the next request is allowed to be sent
+let nextRequest = 0
+
+/** Fetch a single author, work, or edition record */
+export async function getRecord(key: string): Promise<Record> {
+  const path = `${key}.json`
+  const data = await fetchJson<Record>(path)
+
+  if (!data?.key) {
+    throw new UpstreamError(config.upstream.url + path, null, data)
+  }
+
+  return data
+}
+
+/** Fetch a page of changes of the given kind e.g. edit-book made on the given date */
+export async function getRecentChanges(date: Date, kind: string, offset: number, limit: number): Promise<Change[]> {
+  // Format the date to yyyy/mm/dd
+  const datePath = [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('/')
+
+  const path = `/recentchanges/${datePath}/${kind}.json?offset=${offset}&limit=${limit}`
+  const data = await fetchJson<Change[]>(path)
+
+  if (!Array.isArray(data)) {
+    throw new UpstreamError(config.upstream.url + path, null, data)
+  }
+
+  return data
+}
+
+/** Fetch JSON from upstream, rate limited and retrying errors which are likely to be temporary */
+async function fetchJson<T>(path: string): Promise<T> {
+  const url = config.upstream.url + path
+
+  for (let attempt = 0; ; attempt++) {
+    await throttle()
+
+    let response: Response | null = null
+    let error: UpstreamError
+
+    try {
+      response = await fetch(url, {
+        headers: { 'User-Agent': config.upstream.userAgent, Accept: 'application/json' },
+        signal: AbortSignal.timeout(config.upstream.timeout * 1000),
+      })
+
+      if (response.ok) {
+        return (await response.json()) as T
+      }
+
+      error = new UpstreamError(url, response.status, await readBody(response))
+    } catch (err) {
+      // Timeouts, connection errors, and invalid JSON
+      error = new UpstreamError(url, response?.status ?? null, err instanceof Error ? err.message : String(err))
+    }
+
+    // Client errors such as 404 won't succeed by trying again
+    const retryable = !response || response.ok || response.status === 429 || response.status >= 500
+
+    if (!retryable || attempt >= config.upstream.retries) {
+      throw error
+    }
+
+    await sleep(retryAfter(response) ?? config.upstream.backoff * 1000 * 2 ** attempt)
+  }
+}
+
+/** Wait until the rate limit allows another request */
+async function throttle(): Promise<void> {
+  const now = Date.now()
+  const wait = nextRequest - now
+
+  nextRequest = Math.max(now, nextRequest) + 1000 / config.upstream.rateLimit
+
+  if (wait > 0) {
+    await sleep(wait)
+  }
+}
+
+/** Milliseconds to wait from a Retry-After header, which is either seconds or a date */
+function retryAfter(response: Response | null): number | null {
+  const header = response?.headers.get('retry-after')
+  if (!header) return null
+
+  const seconds = Number(header)
+  if (!isNaN(seconds)) return seconds * 1000
+
+  const date = new Date(header).getTime()
+  return isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+async function readBody(response: Response): Promise<any> {
+  return response.headers.get('content-type')?.includes('application/json') ? response.json() : response.text()
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}